@@ -0,0 +1,415 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  AnalysisError, classifyProviderError, withRetry, extractJson, repairLatexEscapes, validateShape, createAnalysisService, createMockProvider,
+  createInitialSchedule, scheduleReview, applyReview, markMastery, isDue,
+  openDatabase,
+  createZip, readZip, readBackup, validateBackupRecord,
+  normalizeChoice, gradeAnswer,
+  composeExam,
+  parseVariant,
+} from './index';
+import type { Question, ComposerConfig } from './index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 5, 15, 10).getTime();
+
+const makeQuestion = (overrides: Partial<Question> = {}): Question => ({
+  id: 'q1',
+  images: [],
+  subject: '职测',
+  category: '言语理解与表达',
+  subCategory: '逻辑填空',
+  questionText: '',
+  aiAnalysis: '',
+  myThinking: '',
+  correctResolution: '',
+  createdAt: NOW - 10 * DAY_MS,
+  reviewCount: 0,
+  lastReviewedAt: null,
+  ...overrides,
+});
+
+const expectAnalysisError = async (promise: Promise<unknown>, kind: AnalysisError['kind']) => {
+  const error = await promise.catch((e: unknown) => e) as AnalysisError;
+  expect(error).toBeInstanceOf(AnalysisError);
+  expect(error.kind).toBe(kind);
+};
+
+describe('analysis service', () => {
+  it('extracts JSON wrapped in fences or prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('好的，结果如下：{"a": "x"} 希望有帮助')).toEqual({ a: 'x' });
+  });
+
+  it('keeps LaTeX commands whose backslash was not doubled inside math', () => {
+    const parse = (value: string) => (extractJson(`{"a": "${value}"}`) as { a: string }).a;
+    expect(parse(String.raw`$a \therefore b \because c$`)).toBe('$a \\therefore b \\because c$');
+    expect(parse(String.raw`$\underline{x} \neq \frac{1}{2}$`)).toBe('$\\underline{x} \\neq \\frac{1}{2}$');
+    expect(parse(String.raw`\(\sqrt{2}\) 与 \\[\\times\\]`)).toBe('\\(\\sqrt{2}\\) 与 \\[\\times\\]');
+    expect(parse(String.raw`$$\n\frac{a}{b}\n$$`)).toBe('$$\n\\frac{a}{b}\n$$');
+  });
+
+  it('leaves valid escapes alone and repairs a broken unicode escape', () => {
+    expect(repairLatexEscapes(String.raw`{"a": "第一行\n中 \"引号\" $\\frac{1}{2}$"}`))
+      .toBe(String.raw`{"a": "第一行\n中 \"引号\" $\\frac{1}{2}$"}`);
+    expect(extractJson(String.raw`{"a": "见 \up 与 \u12"}`)).toEqual({ a: String.raw`见 \up 与 \u12` });
+  });
+
+  it('reports output without a valid JSON object as malformed', () => {
+    expect.assertions(3);
+    expect(() => extractJson('抱歉，我无法识别这张图片')).toThrow(AnalysisError);
+    try {
+      extractJson('{"a": }');
+    } catch (e) {
+      expect((e as AnalysisError).kind).toBe('malformed');
+      expect((e as AnalysisError).raw).toBe('{"a": }');
+    }
+  });
+
+  it('validates fields, defaulting optional ones to an empty string', () => {
+    const result = validateShape({ analysis: '  诊断  ', category: '不存在' }, {
+      analysis: { type: 'string', required: true },
+      suggestion: { type: 'string' },
+      category: { type: 'enum', values: ['数量关系'] },
+    }, 'raw');
+    expect(result).toEqual({ analysis: '诊断', suggestion: '', category: '' });
+  });
+
+  it('rejects missing required fields, non-strings and non-objects', () => {
+    const schema = { analysis: { type: 'string', required: true } } as const;
+    expect(() => validateShape({}, schema, 'raw')).toThrow(/Missing field "analysis"/);
+    expect(() => validateShape({ analysis: 1 }, schema, 'raw')).toThrow(/not a string/);
+    expect(() => validateShape([], schema, 'raw')).toThrow(/not an object/);
+  });
+
+  it('maps provider failures onto error kinds', () => {
+    expect(classifyProviderError(new Error('API key not valid')).kind).toBe('auth');
+    expect(classifyProviderError(new Error('429 RESOURCE_EXHAUSTED')).kind).toBe('quota');
+    expect(classifyProviderError(new Error('Failed to fetch')).kind).toBe('transient');
+    expect(classifyProviderError(new Error('boom')).kind).toBe('unknown');
+  });
+
+  it('retries transient and quota errors, then gives up', async () => {
+    const flaky = vi.fn()
+      .mockRejectedValueOnce(new Error('503 UNAVAILABLE'))
+      .mockResolvedValueOnce('ok');
+    await expect(withRetry(flaky, 2, 0)).resolves.toBe('ok');
+    expect(flaky).toHaveBeenCalledTimes(2);
+
+    const exhausted = vi.fn().mockRejectedValue(new Error('429'));
+    await expectAnalysisError(withRetry(exhausted, 2, 0), 'quota');
+    expect(exhausted).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry auth or malformed errors', async () => {
+    const auth = vi.fn().mockRejectedValue(new Error('PERMISSION_DENIED'));
+    await expectAnalysisError(withRetry(auth, 2, 0), 'auth');
+    expect(auth).toHaveBeenCalledTimes(1);
+
+    const malformed = vi.fn().mockRejectedValue(new AnalysisError('malformed', 'bad'));
+    await expectAnalysisError(withRetry(malformed, 2, 0), 'malformed');
+    expect(malformed).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs the add flow offline with the mock provider', async () => {
+    const service = createAnalysisService(createMockProvider());
+    const classified = await service.classify([]);
+    expect(classified).toMatchObject({ subject: '职测', category: '言语理解与表达', correctAnswer: 'B' });
+
+    const diagnosis = await service.diagnoseRootCause({
+      subject: '职测', category: '言语理解与表达', subCategory: classified.subCategory,
+      myThinking: '凭语感选了 A', correctResolution: classified.solution, images: [],
+    });
+    expect(diagnosis.analysis).not.toBe('');
+    expect(diagnosis.causeTags).toEqual(['概念混淆', '陷阱选项']);
+  });
+});
+
+describe('spaced repetition', () => {
+  const fresh = createInitialSchedule(makeQuestion());
+
+  it('grows the interval on good recalls', () => {
+    const first = scheduleReview(fresh, 'good', NOW);
+    const second = scheduleReview(first, 'good', NOW);
+    const third = scheduleReview(second, 'good', NOW);
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 3, 8]);
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('resets on again and never lets the ease drop below the minimum', () => {
+    let schedule = { ...fresh, ease: 1.4, interval: 30, repetitions: 5 };
+    schedule = scheduleReview(schedule, 'again', NOW);
+    expect(schedule).toMatchObject({ interval: 1, repetitions: 0, lapses: 1, ease: 1.3 });
+  });
+
+  it('schedules from the start of the review day', () => {
+    const schedule = scheduleReview(fresh, 'easy', NOW);
+    const startOfDay = new Date(NOW).setHours(0, 0, 0, 0);
+    expect(schedule.dueAt).toBe(startOfDay + 4 * DAY_MS);
+  });
+
+  it('keeps the mastery flag in sync with graded reviews', () => {
+    const forgotten = applyReview(makeQuestion({ masteryStatus: 'mastered' }), 'again', NOW);
+    expect(forgotten.masteryStatus).toBe('review_needed');
+    expect(forgotten.masteryLog).toEqual([{ from: 'mastered', to: 'review_needed', at: NOW }]);
+
+    const solid = makeQuestion({ schedule: { ...fresh, interval: 10, repetitions: 3 } });
+    expect(applyReview(solid, 'good', NOW).masteryStatus).toBe('mastered');
+  });
+
+  it('moves the schedule when mastery is set by hand', () => {
+    const later = makeQuestion({ schedule: { ...fresh, interval: 8, repetitions: 3, dueAt: NOW + 8 * DAY_MS } });
+    const flagged = markMastery(later, 'review_needed', NOW);
+    expect(isDue(flagged, NOW)).toBe(true);
+    expect(flagged.masteryLog).toEqual([{ from: null, to: 'review_needed', at: NOW }]);
+
+    const mastered = markMastery(later, 'mastered', NOW);
+    expect(mastered.schedule!.interval).toBe(21);
+    expect(isDue(mastered, NOW + 20 * DAY_MS)).toBe(false);
+
+    expect(markMastery(flagged, 'review_needed', NOW + DAY_MS)).toBe(flagged);
+  });
+});
+
+describe('database migrations', () => {
+  const LEGACY_KEY = 'sd_exam_wrong_questions_v1';
+  const LEGACY_ROOT_CAUSE = 'diag\n\n💡 🚀 改进方案：sugg';
+  const legacyQuestion = { id: 'q1', createdAt: NOW, masteryStatus: null, reviewCount: 0, lastReviewedAt: null, rootCause: LEGACY_ROOT_CAUSE };
+
+  // The open connection is cached per module, so every test gets an empty IndexedDB and a fresh import
+  const openFresh = async (): Promise<IDBDatabase> => {
+    vi.resetModules();
+    const fresh: { openDatabase: typeof openDatabase } = await import('./index');
+    return fresh.openDatabase();
+  };
+
+  const getRecord = (db: IDBDatabase, id: string) => new Promise<Record<string, unknown>>((resolve, reject) => {
+    const request = db.transaction('questions', 'readonly').objectStore('questions').get(id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.clear();
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('splits the legacy root cause and builds the image list in a single upgrade from v1', async () => {
+    const v1 = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open('sd_exam_wrong_questions', 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore('questions', { keyPath: 'id' });
+        request.result.createObjectStore('images');
+        request.transaction!.objectStore('questions').put({ id: 'q1', rootCause: LEGACY_ROOT_CAUSE });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    v1.close();
+
+    const db = await openFresh();
+    expect(db.version).toBe(8);
+    expect(await getRecord(db, 'q1')).toMatchObject({ rootCause: 'diag', suggestion: 'sugg', images: [{ id: 'q1', role: '题干' }] });
+    db.close();
+  });
+
+  it('imports localStorage questions and keeps the legacy copy when an entry is unreadable', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([legacyQuestion, { title: 'no id' }]));
+    const db = await openFresh();
+    expect(await getRecord(db, 'q1')).toMatchObject({ rootCause: 'diag', suggestion: 'sugg', images: [{ id: 'q1', role: '题干' }] });
+    expect(localStorage.getItem(LEGACY_KEY)).not.toBeNull();
+    db.close();
+  });
+
+  it('removes the legacy copy once every question has been imported', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify([legacyQuestion]));
+    const db = await openFresh();
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+    db.close();
+  });
+
+  it('removes a legacy copy that is an empty list', async () => {
+    localStorage.setItem(LEGACY_KEY, '[]');
+    const db = await openFresh();
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+    db.close();
+  });
+
+  it('still opens when the legacy data is not valid JSON', async () => {
+    localStorage.setItem(LEGACY_KEY, '[{"id":');
+    const db = await openFresh();
+    expect(db.version).toBe(8);
+    expect(localStorage.getItem(LEGACY_KEY)).toBe('[{"id":');
+    db.close();
+  });
+});
+
+describe('backup archive', () => {
+  // jsdom's Blob has no arrayBuffer()
+  beforeAll(() => {
+    vi.stubGlobal('Blob', NodeBlob);
+    vi.stubGlobal('File', NodeFile);
+  });
+  afterAll(() => vi.unstubAllGlobals());
+
+  const encode = (text: string) => new TextEncoder().encode(text);
+
+  it('reads back what it zipped, including UTF-8 names', async () => {
+    const zip = createZip([{ name: 'manifest.json', data: encode('{}') }, { name: 'images/题干.jpg', data: new Uint8Array([1, 2, 3]) }]);
+    const files = await readZip(await zip.arrayBuffer());
+    expect([...files.keys()]).toEqual(['manifest.json', 'images/题干.jpg']);
+    expect([...files.get('images/题干.jpg')!]).toEqual([1, 2, 3]);
+  });
+
+  it('imports records with their image files, and records whose images are gone as text only', async () => {
+    const manifest = {
+      format: 'fantianshe-backup',
+      version: 2,
+      exportedAt: NOW,
+      questions: [
+        { ...makeQuestion(), images: [{ id: 'img1', role: '材料', file: 'images/img1.png' }] },
+        { ...makeQuestion({ id: 'q2' }), images: [{ id: 'img2', role: '题干', file: 'images/missing.jpg' }] },
+      ],
+    };
+    const zip = createZip([
+      { name: 'manifest.json', data: encode(JSON.stringify(manifest)) },
+      { name: 'images/img1.png', data: new Uint8Array([9]) },
+    ]);
+    const preview = await readBackup(new File([zip], 'backup.zip'));
+    expect(preview.rejected).toEqual([]);
+    const [withImage, textOnly] = preview.candidates;
+    expect(withImage.question.images).toEqual([{ id: 'img1', role: '材料' }]);
+    expect(withImage.images.get('img1')!.type).toBe('image/png');
+    expect(textOnly.question.images).toEqual([]);
+    expect(textOnly.repairs).toEqual(['图片缺失，已作为纯文字题导入']);
+  });
+
+  it('reads the taxonomy, settings, sessions and reports of v3 archives', async () => {
+    const session = { id: 's1', title: '组卷', items: [{ questionId: 'q1', timeSpentMs: 1000, correct: true }], currentIndex: 0, startedAt: NOW, endedAt: null };
+    const manifest = {
+      format: 'fantianshe-backup',
+      version: 3,
+      exportedAt: NOW,
+      questions: [],
+      taxonomy: { '数量关系': [{ name: '数学运算', children: [{ name: '工程问题', children: [] }] }, { name: 42 }], '未知': [] },
+      settings: { apiKey: 'secret', model: 'gemini-2.5-pro', writingRubric: [{ name: '结构', maxScore: 25, description: '' }, { name: '语言' }] },
+      sessions: [session, { id: 's2' }],
+      reports: [{ periodKey: '2026-06-1' }],
+    };
+    const zip = createZip([{ name: 'manifest.json', data: encode(JSON.stringify(manifest)) }]);
+    const { extras, invalidExtras } = await readBackup(new File([zip], 'backup.zip'));
+    expect(extras.taxonomy).toEqual({ '数量关系': [{ name: '数学运算', children: [{ name: '工程问题', children: [] }] }] });
+    expect(extras.settings).toEqual({ model: 'gemini-2.5-pro', writingRubric: [{ name: '结构', maxScore: 25, description: '' }] });
+    expect(extras.sessions).toEqual([session]);
+    expect(extras.reports).toEqual([]);
+    expect(invalidExtras).toBe(2);
+  });
+
+  it('rejects records without an id and repairs what can be defaulted', () => {
+    expect(validateBackupRecord({ category: '数量关系' })).toEqual({ error: '缺少题目 ID' });
+
+    const result = validateBackupRecord({
+      id: 'q1',
+      category: '旧分类',
+      questionText: 42,
+      rootCause: '诊断\n\n💡 🚀 改进方案：建议',
+      attempts: [{ answer: 'B', correct: true, timeSpentMs: 1000, answeredAt: NOW }, { answer: 'C' }],
+    });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.question).toMatchObject({ category: '其他', subject: '职测', questionText: '', rootCause: '诊断', suggestion: '建议' });
+    expect(result.question.attempts).toHaveLength(1);
+    expect(result.question.schedule).toBeDefined();
+    expect(result.repairs).toEqual(expect.arrayContaining(['未知大类「旧分类」，已归为其他', 'questionText 类型错误，已清空', '部分作答记录无效，已丢弃']));
+  });
+});
+
+describe('answer grading', () => {
+  it('normalizes option letters', () => {
+    expect(normalizeChoice('c、a')).toBe('AC');
+    expect(normalizeChoice('B')).toBe('B');
+    expect(normalizeChoice('A, C')).toBe('AC');
+    expect(normalizeChoice('答案：d')).toBe('D');
+  });
+
+  it('reads only the leading letters of an answer with an explanation', () => {
+    expect(normalizeChoice('B. Because the base period is smaller')).toBe('B');
+    expect(normalizeChoice('Because')).toBe('');
+    expect(normalizeChoice('G')).toBe('');
+  });
+
+  it('grades choices regardless of order and case', () => {
+    expect(gradeAnswer('AC', 'ca')).toBe(true);
+    expect(gradeAnswer('AC', 'A')).toBe(false);
+    expect(gradeAnswer('', '')).toBe(false);
+  });
+
+  it('grades numbers within the rounding tolerance', () => {
+    expect(gradeAnswer('12.5%', '12.52')).toBe(true);
+    expect(gradeAnswer('1,200', '1200')).toBe(true);
+    expect(gradeAnswer('12.5%', '13')).toBe(false);
+  });
+});
+
+describe('exam composer', () => {
+  const pool = Array.from({ length: 30 }, (_, i) => makeQuestion({
+    id: `q${String(i).padStart(2, '0')}`,
+    category: i % 3 === 0 ? '数量关系' : '言语理解与表达',
+    subCategory: i % 3 === 0 ? '数学运算-工程问题' : '逻辑填空',
+    masteryStatus: i % 5 === 0 ? 'mastered' : null,
+  }));
+  const config: ComposerConfig = { total: 10, quotas: [], mastery: ['review_needed', 'unmarked'], seed: 42, asOf: NOW };
+  const ids = (questions: Question[]) => questions.map(q => q.id);
+
+  it('draws the same paper for the same seed, whatever the pool order', () => {
+    const first = composeExam(pool, config);
+    const second = composeExam([...pool].reverse(), config);
+    expect(ids(second.questions)).toEqual(ids(first.questions));
+    expect(ids(composeExam(pool, { ...config, seed: 7 }).questions)).not.toEqual(ids(first.questions));
+  });
+
+  it('applies the mastery filter and fills quotas first', () => {
+    const { questions, eligible, shortfalls } = composeExam(pool, {
+      ...config,
+      quotas: [{ category: '数量关系', subCategory: '数学运算', count: 4 }],
+    });
+    expect(eligible).toBe(24);
+    expect(questions).toHaveLength(10);
+    expect(questions.every(q => q.masteryStatus !== 'mastered')).toBe(true);
+    expect(questions.filter(q => q.category === '数量关系').length).toBeGreaterThanOrEqual(4);
+    expect(shortfalls).toEqual([]);
+  });
+
+  it('reports quotas and totals it cannot fill', () => {
+    const { shortfalls } = composeExam(pool, {
+      ...config,
+      total: 40,
+      quotas: [{ category: '资料分析', subCategory: '', count: 2 }],
+    });
+    expect(shortfalls).toEqual([
+      { label: '资料分析', requested: 2, available: 0 },
+      { label: '总题量', requested: 40, available: 24 },
+    ]);
+  });
+});
+
+describe('variant parsing', () => {
+  it('strips option letters the model kept', () => {
+    expect(parseVariant({ stem: ' 题干 ', options: ['A. 甲', 'B、乙', '丙', 'D：丁'], answer: 'b', explanation: '因为' })).toEqual({
+      stem: '题干', options: ['甲', '乙', '丙', '丁'], answer: 'B', explanation: '因为',
+    });
+  });
+
+  it('drops items that cannot be practised', () => {
+    expect(parseVariant({ stem: '题干', options: ['甲', '乙'], answer: 'C', explanation: '' })).toBeNull();
+    expect(parseVariant({ stem: '题干', options: ['甲'], answer: 'A', explanation: '' })).toBeNull();
+    expect(parseVariant({ stem: '', options: ['甲', '乙'], answer: 'A' })).toBeNull();
+    expect(parseVariant('not an object')).toBeNull();
+  });
+});
@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Camera, Upload, BookOpen, PieChart, Plus, ChevronRight, Save, Trash2, RefreshCw, CheckCircle, XCircle, FileText, Brain, PenTool, Search, Lightbulb, Calendar, ArrowRight, Star, AlertCircle, Filter, Clock, RotateCcw } from 'lucide-react';
+import { Camera, Upload, BookOpen, PieChart, Plus, ChevronRight, Save, Trash2, RefreshCw, CheckCircle, XCircle, FileText, Brain, PenTool, Search, Lightbulb, Calendar, ArrowRight, Star, AlertCircle, Filter, Clock, RotateCcw, RotateCw, Crop, Contrast, Download, Settings, Eye, EyeOff, Printer, MessageCircle } from 'lucide-react';
 import { GoogleGenAI } from "@google/genai";
+import { Marked, type TokenizerAndRendererExtension } from 'marked';
+import katex from 'katex';
+import DOMPurify from 'dompurify';
 
 // --- Types & Constants ---
 
@@ -17,9 +20,61 @@ type QuestionCategory =
 
 type MasteryStatus = 'mastered' | 'review_needed' | null;
 
+// Recall rating given after revealing the answer in exam mode (SM-2 style)
+type RecallGrade = 'again' | 'hard' | 'good' | 'easy';
+
+interface MasteryChange {
+  from: MasteryStatus;
+  to: MasteryStatus;
+  at: number;
+}
+
+interface AnswerAttempt {
+  answer: string;
+  correct: boolean;
+  timeSpentMs: number;
+  answeredAt: number;
+}
+
+// A new multiple-choice item on the same knowledge point and trap as its parent question
+interface VariantQuestion {
+  id: string;
+  stem: string;
+  options: string[]; // Option texts, lettered A, B, C... in order
+  answer: string; // Option letter(s), normalized like correctAnswer
+  explanation: string;
+  createdAt: number;
+  attempts?: AnswerAttempt[];
+}
+
+interface ChatMessage {
+  role: 'user' | 'tutor';
+  text: string;
+  at: number;
+}
+
+interface ReviewSchedule {
+  ease: number; // SM-2 ease factor, >= MIN_EASE
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful recalls
+  lapses: number; // Times the question was forgotten ("again")
+  dueAt: number; // Timestamp when the question becomes due
+}
+
+type ImageRole = '题干' | '材料' | '解析';
+
+const IMAGE_ROLES: ImageRole[] = ['题干', '材料', '解析'];
+
+interface QuestionImage {
+  id: string; // Key in IMAGE_STORE / THUMBNAIL_STORE
+  role: ImageRole;
+  url: string; // data: URL for fresh images, blob: URL once loaded from storage; in-memory only
+  thumbnailUrl?: string; // Small preview for list cards; in-memory only
+}
+
 interface Question {
   id: string;
-  imageUrl: string;
+  images: QuestionImage[]; // Ordered as they should be read
   subject: '职测' | '综应';
   category: QuestionCategory;
   subCategory: string; // e.g., "逻辑填空", "图形推理"
@@ -28,884 +83,8827 @@ interface Question {
   myThinking: string; // User's wrong thought process
   correctResolution: string; // Correct answer and logic
   rootCause?: string; // Deep analysis of why the user got it wrong
+  suggestion?: string; // Actionable improvement plan from the diagnosis
+  causeTags?: CauseTag[]; // Structured error causes from CAUSE_TAGS
   masteryStatus?: MasteryStatus; // New field for mastery tracking
+  schedule?: ReviewSchedule; // Spaced-repetition state
+  correctAnswer?: string; // Option letter(s) like "B" / "AC", or a number for calculation questions
+  attempts?: AnswerAttempt[]; // Every graded redo, oldest first
+  reviewLog?: number[]; // Timestamp of every review in exam mode
+  masteryLog?: MasteryChange[]; // Every change of masteryStatus, oldest first
+  variants?: VariantQuestion[]; // Generated practice items (举一反三) that belong to this mistake
+  chat?: ChatMessage[]; // Follow-up questions to the AI tutor, oldest first
+  writingAttempts?: WritingAttempt[]; // Scored 综应 answers, oldest first
   createdAt: number;
   reviewCount: number;
   lastReviewedAt: number | null;
 }
 
+// Fixed vocabulary so error causes can be counted and grouped across questions
+const CAUSE_TAGS = ['知识盲区', '概念混淆', '审题失误', '计算错误', '时间不足', '陷阱选项', '方法不当', '粗心大意'] as const;
+
+type CauseTag = typeof CAUSE_TAGS[number];
+
+const isCauseTag = (value: unknown): value is CauseTag => CAUSE_TAGS.includes(value as CauseTag);
+
 const CATEGORIES: { [key: string]: QuestionCategory[] } = {
   '职测': ['言语理解与表达', '数量关系', '判断推理', '资料分析', '常识判断'],
   '综应': ['综合应用-案例分析', '综合应用-文书写作'],
 };
 
-// --- Mock Data / Storage Helper ---
+// --- Storage (IndexedDB) ---
 
+// Legacy localStorage key, imported into IndexedDB on first launch
 const STORAGE_KEY = 'sd_exam_wrong_questions_v1';
 
-const saveQuestions = (questions: Question[]) => {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(questions));
-};
+const DB_NAME = 'sd_exam_wrong_questions';
+const QUESTION_STORE = 'questions';
+const IMAGE_STORE = 'images';
+const THUMBNAIL_STORE = 'thumbnails';
+const DRAFT_STORE = 'drafts';
+const SESSION_STORE = 'sessions';
+const REPORT_STORE = 'reports';
 
-const loadQuestions = (): Question[] => {
-  const data = localStorage.getItem(STORAGE_KEY);
-  return data ? JSON.parse(data) : [];
-};
+// Question records only reference their images; images live in IMAGE_STORE as Blobs keyed by image id,
+// with a derived JPEG preview in THUMBNAIL_STORE under the same key
+type StoredImage = Omit<QuestionImage, 'url' | 'thumbnailUrl'>;
+type StoredQuestion = Omit<Question, 'images'> & { images: StoredImage[] };
 
-// --- Helpers ---
+// Records written before multi-image support had a single image keyed by the question id
+type LegacyQuestion = Omit<StoredQuestion, 'images'> & { imageUrl?: string };
 
-const getPeriodKey = (ts: number) => {
-  const d = new Date(ts);
-  const year = d.getFullYear();
-  const month = d.getMonth() + 1;
-  const day = d.getDate();
-  const part = day <= 15 ? '上半月' : '下半月';
-  return `${year}年${month}月${part}`;
-};
+interface Migration {
+  version: number;
+  description: string;
+  migrate?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  upgradeRecord?: (record: StoredQuestion) => StoredQuestion; // Rewrites one stored question, see upgradeRecords
+}
 
-const formatDate = (ts: number) => {
-  return new Date(ts).toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' });
+// Append new entries to evolve the schema; each runs once, in order, inside the upgrade transaction
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create question and image stores',
+    migrate: (db) => {
+      db.createObjectStore(QUESTION_STORE, { keyPath: 'id' });
+      db.createObjectStore(IMAGE_STORE);
+    },
+  },
+  {
+    version: 2,
+    description: 'Import questions from localStorage',
+    migrate: (_db, tx) => {
+      const data = localStorage.getItem(STORAGE_KEY);
+      if (!data) return;
+      // A throw here would abort the upgrade and the database would never open, so bad data is skipped instead
+      let legacy: unknown;
+      try {
+        legacy = JSON.parse(data);
+      } catch (err) {
+        console.error('Legacy questions are not valid JSON', err);
+        return;
+      }
+      // Anything other than a list is kept as it is; an empty list simply has nothing to import
+      if (!Array.isArray(legacy)) {
+        console.error('Legacy questions are not a list');
+        return;
+      }
+      let skipped = 0;
+      legacy.forEach((entry: unknown) => {
+        try {
+          if (!entry || typeof entry !== 'object' || !isString((entry as LegacyQuestion).id)) throw new Error('Missing id');
+          const { imageUrl, ...record } = normalizeQuestion(entry as LegacyQuestion);
+          const image = imageUrl?.startsWith('data:') ? dataUrlToBlob(imageUrl) : null;
+          tx.objectStore(QUESTION_STORE).put(record);
+          if (image) tx.objectStore(IMAGE_STORE).put(image, record.id);
+        } catch (err) {
+          console.error('Skipped a legacy question', err);
+          skipped++;
+        }
+      });
+      // Only drop the legacy copy once everything has been committed, and keep it if anything was left behind
+      if (skipped === 0) tx.addEventListener('complete', () => localStorage.removeItem(STORAGE_KEY));
+    },
+  },
+  {
+    version: 3,
+    description: 'Split root-cause suggestion into its own field',
+    upgradeRecord: record => record.rootCause && record.suggestion === undefined
+      ? { ...record, ...splitLegacyRootCause(record.rootCause) }
+      : record,
+  },
+  {
+    version: 4,
+    description: 'Create thumbnail store',
+    // Thumbnails need a canvas, so existing images are backfilled later by backfillThumbnails
+    migrate: (db) => {
+      db.createObjectStore(THUMBNAIL_STORE);
+    },
+  },
+  {
+    version: 5,
+    description: 'Move the single image into an image list',
+    // The existing blob and thumbnail stay under the question id, which becomes the image id
+    upgradeRecord: record => Array.isArray(record.images) ? record : { ...record, images: [{ id: record.id, role: '题干' }] },
+  },
+  {
+    version: 6,
+    description: 'Create draft store',
+    migrate: (db) => {
+      db.createObjectStore(DRAFT_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Create exam session store',
+    migrate: (db) => {
+      db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    },
+  },
+  {
+    version: 8,
+    description: 'Create period report store',
+    migrate: (db) => {
+      db.createObjectStore(REPORT_STORE, { keyPath: 'periodKey' });
+    },
+  },
+];
+
+// Older versions stored the suggestion appended to rootCause behind this marker
+const LEGACY_SUGGESTION_MARKER = '\n\n💡 🚀 改进方案：';
+
+const splitLegacyRootCause = (rootCause: string) => {
+  const index = rootCause.indexOf(LEGACY_SUGGESTION_MARKER);
+  return index === -1
+    ? { rootCause, suggestion: '' }
+    : { rootCause: rootCause.slice(0, index), suggestion: rootCause.slice(index + LEGACY_SUGGESTION_MARKER.length) };
 };
 
-// --- Components ---
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
-// 1. Tab Navigation
-const TabNav = ({ activeTab, setActiveTab }: { activeTab: string, setActiveTab: (t: string) => void }) => (
-  <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 flex justify-around py-3 z-50 safe-area-pb">
-    <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center ${activeTab === 'dashboard' ? 'text-blue-600' : 'text-gray-400'}`}>
-      <PieChart size={24} />
-      <span className="text-xs mt-1">概览</span>
-    </button>
-    <button onClick={() => setActiveTab('add')} className={`flex flex-col items-center ${activeTab === 'add' ? 'text-blue-600' : 'text-gray-400'}`}>
-      <div className="bg-blue-600 text-white p-3 rounded-full -mt-6 shadow-lg">
-        <Plus size={24} />
-      </div>
-      <span className="text-xs mt-1">录入</span>
-    </button>
-    <button onClick={() => setActiveTab('review')} className={`flex flex-col items-center ${activeTab === 'review' ? 'text-blue-600' : 'text-gray-400'}`}>
-      <BookOpen size={24} />
-      <span className="text-xs mt-1">复盘</span>
-    </button>
-  </div>
-);
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 
-// 2. Dashboard View
-const Dashboard = ({ questions }: { questions: Question[] }) => {
-  const total = questions.length;
-  const priorityCount = questions.filter(q => q.masteryStatus === 'review_needed').length;
-  
-  // Calculate category stats
-  const catStats: Record<string, number> = {};
-  questions.forEach(q => {
-    catStats[q.category] = (catStats[q.category] || 0) + 1;
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
   });
 
-  return (
-    <div className="p-6 pb-24">
-      <header className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-800">错题复盘助手</h1>
-        <p className="text-gray-500 text-sm">山东事业编统考专属</p>
-      </header>
+// A single cursor applies every pending record upgrade in order, so each one builds on the result of
+// the previous instead of racing it with a cursor of its own
+const upgradeRecords = (tx: IDBTransaction, upgrades: NonNullable<Migration['upgradeRecord']>[]) => {
+  if (upgrades.length === 0) return;
+  const request = tx.objectStore(QUESTION_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const record = upgrades.reduce((r, upgrade) => upgrade(r), cursor.value as StoredQuestion);
+    if (record !== cursor.value) cursor.update(record);
+    cursor.continue();
+  };
+};
 
-      <div className="grid grid-cols-2 gap-4 mb-8">
-        <div className="bg-blue-50 p-4 rounded-2xl border border-blue-100">
-          <p className="text-blue-600 text-sm font-medium">累计错题</p>
-          <p className="text-3xl font-bold text-gray-800 mt-2">{total}</p>
-        </div>
-        <div className="bg-red-50 p-4 rounded-2xl border border-red-100 relative overflow-hidden">
-          <div className="absolute top-2 right-2 opacity-10 text-red-500">
-            <AlertCircle size={48} />
-          </div>
-          <p className="text-red-600 text-sm font-medium">重点复习</p>
-          <p className="text-3xl font-bold text-gray-800 mt-2">{priorityCount}</p>
-        </div>
-      </div>
+let dbPromise: Promise<IDBDatabase> | null = null;
 
-      <h2 className="text-lg font-semibold text-gray-800 mb-4">题型分布</h2>
-      <div className="space-y-3">
-        {Object.entries(catStats).map(([cat, count]) => (
-          <div key={cat} className="flex items-center">
-            <div className="w-32 text-sm text-gray-600 truncate">{cat}</div>
-            <div className="flex-1 h-2 bg-gray-100 rounded-full mx-3 overflow-hidden">
-              <div 
-                className="h-full bg-blue-500 rounded-full" 
-                style={{ width: `${(count / total) * 100}%` }}
-              />
-            </div>
-            <div className="text-sm font-medium text-gray-700">{count}题</div>
-          </div>
-        ))}
-        {total === 0 && <p className="text-gray-400 text-sm italic">暂无错题数据，请点击下方 + 号录入。</p>}
-      </div>
-    </div>
-  );
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        const pending = MIGRATIONS.filter(m => m.version > event.oldVersion);
+        // Schema steps and the localStorage import go first; their writes are queued ahead of the cursor
+        pending.forEach(m => m.migrate?.(db, tx));
+        upgradeRecords(tx, pending.flatMap(m => m.upgradeRecord ? [m.upgradeRecord] : []));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
 };
 
-// 3. Add Question View (AI Powered)
-const AddQuestion = ({ onSave, onCancel }: { onSave: (q: Question) => void, onCancel: () => void }) => {
-  const [image, setImage] = useState<string | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isDeepAnalyzing, setIsDeepAnalyzing] = useState(false); // State for second pass analysis
-  const [analysisError, setAnalysisError] = useState<string | null>(null);
-  
-  // Form State
-  const [subject, setSubject] = useState<'职测' | '综应'>('职测');
-  const [category, setCategory] = useState<QuestionCategory>('言语理解与表达');
-  const [subCategory, setSubCategory] = useState('');
-  const [aiAnalysis, setAiAnalysis] = useState('');
-  const [myThinking, setMyThinking] = useState('');
-  const [correctResolution, setCorrectResolution] = useState('');
-  const [rootCause, setRootCause] = useState('');
-  // Default to review_needed for new wrong questions if root cause is analyzed
-  const [tempMastery, setTempMastery] = useState<MasteryStatus>(null);
+const getDataUrlMimeType = (dataUrl: string) => dataUrl.match(/^data:(.*?);/)?.[1] || 'image/jpeg';
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+const dataUrlToBlob = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = getDataUrlMimeType(header);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
 
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = reader.result as string;
-      setImage(base64);
-      analyzeImage(base64);
-    };
-    reader.readAsDataURL(file);
-  };
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
 
-  const analyzeImage = async (base64Image: string) => {
-    setIsAnalyzing(true);
-    setAnalysisError(null);
+// Resolve a displayable image URL (data: or blob:) to a base64 data URL for the AI
+const imageUrlToDataUrl = async (url: string) => {
+  if (url.startsWith('data:')) return url;
+  const blob = await (await fetch(url)).blob();
+  return blobToDataUrl(blob);
+};
 
-    try {
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) throw new Error("API Key missing");
+const toImageInputs = (images: QuestionImage[]) =>
+  Promise.all(images.map(async img => ({ role: img.role, dataUrl: await imageUrlToDataUrl(img.url) })));
 
-      const ai = new GoogleGenAI({ apiKey });
-      const base64Data = base64Image.split(',')[1];
-      
-      const prompt = `
-        你是一个山东事业编统考（职测/综应）的辅导专家。请分析这张错题截图。
-        
-        请返回一个纯JSON格式的回答，不要包含markdown标记。JSON字段如下：
-        {
-          "subject": "职测" 或 "综应",
-          "category": "属于哪个大类（例如：言语理解与表达, 数量关系, 判断推理, 资料分析, 常识判断, 综合应用-案例分析, 综合应用-文书写作）",
-          "subCategory": "细分题型（例如：主旨概括, 逻辑填空, 图形推理, 增长率计算等）",
-          "questionText": "提取题干主要文字",
-          "analysis": "分析题目的考点、难点，以及容易做错的陷阱。",
-          "solution": "详细的正确解析思路。"
-        }
-      `;
+// Fill in fields added after a record was first written
+const normalizeQuestion = <T extends Parameters<typeof createInitialSchedule>[0] & { schedule?: ReviewSchedule }>(q: T): T =>
+  q.schedule ? q : { ...q, schedule: createInitialSchedule(q) };
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: {
-          parts: [
-            { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
-            { text: prompt }
-          ]
-        }
-      });
+const createImageId = () => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 
-      const text = response.text || '';
-      const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      
-      try {
-        const data = JSON.parse(jsonStr);
-        setSubject(data.subject === '综应' ? '综应' : '职测');
-        const validCategories = [...CATEGORIES['职测'], ...CATEGORIES['综应']];
-        if (validCategories.includes(data.category)) {
-           setCategory(data.category as QuestionCategory);
-        }
-        setSubCategory(data.subCategory || '');
-        setAiAnalysis(data.analysis || '');
-        setCorrectResolution(data.solution || '');
-      } catch (e) {
-        console.error("Failed to parse JSON", e);
-        setAiAnalysis(text);
-      }
+// The stem image represents the question in lists; fall back to whatever comes first
+const getPrimaryImage = (q: Pick<Question, 'images'>): QuestionImage | undefined =>
+  q.images.find(img => img.role === '题干') || q.images[0];
 
-    } catch (err) {
-      console.error(err);
-      setAnalysisError("AI分析失败，请手动输入。");
-    } finally {
-      setIsAnalyzing(false);
+const getPreviewUrl = (q: Pick<Question, 'images'>) => {
+  const image = getPrimaryImage(q);
+  return image ? image.thumbnailUrl || image.url : '';
+};
+
+// A failed thumbnail (e.g. a format the browser cannot decode) must never block saving the question
+const tryCreateThumbnail = (image: Blob) =>
+  createThumbnail(image).catch(err => {
+    console.error(err);
+    return undefined;
+  });
+
+const putThumbnail = async (id: string, thumbnail: Blob) => {
+  const db = await openDatabase();
+  const tx = db.transaction(THUMBNAIL_STORE, 'readwrite');
+  tx.objectStore(THUMBNAIL_STORE).put(thumbnail, id);
+  await transactionDone(tx);
+};
+
+// An image stored before thumbnails existed, or whose thumbnail could not be created at the time
+interface MissingThumbnail {
+  questionId: string;
+  imageId: string;
+  blob: Blob;
+}
+
+const loadQuestions = async () => {
+  const entries = await loadStoredEntries();
+  const missingThumbnails: MissingThumbnail[] = [];
+  const questions = entries.map(({ record, images }) => {
+    const loaded = images.flatMap(({ image, blob, thumbnail }): QuestionImage[] => {
+      if (!blob) return [];
+      if (!thumbnail) missingThumbnails.push({ questionId: record.id, imageId: image.id, blob });
+      return [{
+        ...image,
+        url: URL.createObjectURL(blob),
+        thumbnailUrl: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+      }];
+    });
+    return normalizeQuestion({ ...record, images: loaded });
+  });
+  return { questions: questions.sort((a, b) => b.createdAt - a.createdAt), missingThumbnails };
+};
+
+const THUMBNAIL_BACKFILL_CONCURRENCY = 2;
+
+// Runs once the library is on screen (lists show the full image until then), and only a couple
+// at a time: each thumbnail decodes a full-size image
+const backfillThumbnails = async (missing: MissingThumbnail[], onThumbnail: (item: MissingThumbnail, thumbnail: Blob) => void) => {
+  const queue = [...missing];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      const thumbnail = await tryCreateThumbnail(item.blob);
+      if (!thumbnail) continue;
+      await putThumbnail(item.imageId, thumbnail);
+      onThumbnail(item, thumbnail);
     }
   };
+  await Promise.all(Array.from({ length: THUMBNAIL_BACKFILL_CONCURRENCY }, worker));
+};
 
-  // New Function: Deep Analysis based on user thinking
-  const handleDeepAnalysis = async () => {
-    if (!myThinking && !correctResolution) {
-      setAnalysisError("请先输入‘我的做题思路’或‘正确解析’，AI才能分析深层错因。");
-      return;
-    }
+const toStoredQuestion = ({ images, ...rest }: Question): StoredQuestion => ({
+  ...rest,
+  images: images.map(({ id, role }) => ({ id, role })),
+});
 
-    setIsDeepAnalyzing(true);
-    setAnalysisError(null);
+// Writes a single question; an image is only (re)written when given explicitly or as a fresh data URL.
+// Images no longer referenced by the question are deleted.
+const putQuestion = async (q: Question, blobs: Map<string, Blob> = new Map()) => {
+  const record = toStoredQuestion(q);
+  const fresh = q.images.flatMap(img => {
+    const blob = blobs.get(img.id) || (img.url.startsWith('data:') ? dataUrlToBlob(img.url) : null);
+    return blob ? [{ id: img.id, blob }] : [];
+  });
+  // Encode before opening the transaction, which would otherwise auto-commit while we wait
+  const thumbnails: (Blob | undefined)[] = [];
+  for (const { blob } of fresh) thumbnails.push(await tryCreateThumbnail(blob));
 
-    try {
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) throw new Error("API Key missing");
+  const db = await openDatabase();
+  const tx = db.transaction([QUESTION_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+  const previous = await requestToPromise<StoredQuestion | undefined>(tx.objectStore(QUESTION_STORE).get(q.id));
+  tx.objectStore(QUESTION_STORE).put(record);
+  fresh.forEach(({ id, blob }, index) => {
+    tx.objectStore(IMAGE_STORE).put(blob, id);
+    const thumbnail = thumbnails[index];
+    if (thumbnail) tx.objectStore(THUMBNAIL_STORE).put(thumbnail, id);
+    else tx.objectStore(THUMBNAIL_STORE).delete(id);
+  });
+  previous?.images
+    .filter(img => !record.images.some(kept => kept.id === img.id))
+    .forEach(img => {
+      tx.objectStore(IMAGE_STORE).delete(img.id);
+      tx.objectStore(THUMBNAIL_STORE).delete(img.id);
+    });
+  await transactionDone(tx);
+};
 
-      const ai = new GoogleGenAI({ apiKey });
-      
-      const prompt = `
-        你是一名顶级公考辅导专家（山东事业编统考方向）。请根据学员提供的【学员思路】与【正确解析】进行差异对比，精准诊断痛点。
+const deleteQuestionRecord = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([QUESTION_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readwrite');
+  const record = await requestToPromise<StoredQuestion | undefined>(tx.objectStore(QUESTION_STORE).get(id));
+  tx.objectStore(QUESTION_STORE).delete(id);
+  record?.images.forEach(img => {
+    tx.objectStore(IMAGE_STORE).delete(img.id);
+    tx.objectStore(THUMBNAIL_STORE).delete(img.id);
+  });
+  await transactionDone(tx);
+};
 
-        【基本信息】
-        科目：${subject}
-        大类：${category}
-        细分题型：${subCategory}
+const loadStoredEntries = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([QUESTION_STORE, IMAGE_STORE, THUMBNAIL_STORE], 'readonly');
+  const records = await requestToPromise<StoredQuestion[]>(tx.objectStore(QUESTION_STORE).getAll());
+  const blobs = tx.objectStore(IMAGE_STORE);
+  const thumbnails = tx.objectStore(THUMBNAIL_STORE);
+  return Promise.all(records.map(async record => ({
+    record,
+    images: await Promise.all(record.images.map(async image => ({
+      image,
+      blob: await requestToPromise<Blob | undefined>(blobs.get(image.id)),
+      thumbnail: await requestToPromise<Blob | undefined>(thumbnails.get(image.id)),
+    }))),
+  })));
+};
 
-        【学员思路】
-        ${myThinking || "（学员未提供详细思路，请基于该题型的常见误区进行推断，分析学员可能的思维路径）"}
+const describeStorageError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'QuotaExceededError'
+    ? '存储空间已满，保存失败。请导出备份后清理部分错题。'
+    : '保存失败，请稍后重试。';
 
-        【正确解析】
-        ${correctResolution || "（请结合图片内容自行推导正确逻辑）"}
+// --- Drafts ---
 
-        请返回纯JSON格式，确保字段内容详实、具体、有针对性：
-        {
-          "analysis": "请具体指出学员的思维误区。不要泛泛而谈。例如：指出具体的逻辑谬误（如‘偷换概念’）、知识盲区（如‘混淆增长率与增长量’）或解题习惯问题（如‘未看完选项即作答’）。必须包含‘学员错在...而正确逻辑是...’的对比。",
-          "refinedSubCategory": "更精准的考点标签（例如：将‘逻辑填空’细化为‘逻辑填空-对应关系-解释说明’）。若当前标签已足够精准，返回空字符串。",
-          "suggestion": "极具操作性的行动指南。拒绝‘多做题’等废话。例如：‘建议整理[主体不一致]的错题集’、‘每天默写一次[资料分析速算公式]’、‘对比A选项和B选项的细微差别，注意[限定词]的陷阱’。"
-        }
-      `;
-
-      // Include image context if available
-      let reqContent;
-      if (image) {
-         const base64Data = image.split(',')[1];
-         reqContent = {
-            parts: [
-              { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
-              { text: prompt }
-            ]
-         };
-      } else {
-         reqContent = {
-            parts: [{ text: prompt }]
-         };
-      }
+const DRAFT_EVENT = 'draft-change';
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: reqContent
-      });
+// An unsaved entry from the add form; images stay inline as data URLs so a draft is self-contained
+interface QuestionDraft {
+  id: string;
+  updatedAt: number;
+  images: QuestionImage[];
+  subject: '职测' | '综应';
+  category: QuestionCategory;
+  subCategory: string;
+  questionText: string;
+  aiAnalysis: string;
+  myThinking: string;
+  correctResolution: string;
+  correctAnswer: string;
+  rootCause: string;
+  suggestion: string;
+  causeTags: CauseTag[];
+  masteryStatus: MasteryStatus; // Applied through changeMastery when the question is saved
+  analysisError: string | null;
+}
 
-      const text = response.text || '';
-      const jsonStr = text.replace(/```json/g, '').replace(/```/g, '').trim();
-      const data = JSON.parse(jsonStr);
-
-      if (data.analysis) {
-        const fullAnalysis = data.suggestion 
-          ? `${data.analysis}\n\n💡 🚀 改进方案：${data.suggestion}` 
-          : data.analysis;
-        setRootCause(fullAnalysis);
-        // Automatically suggest "Review Needed" when analysis is complete
-        setTempMastery('review_needed');
-      }
-      if (data.refinedSubCategory) {
-        setSubCategory(data.refinedSubCategory);
-      }
+interface DraftChange {
+  id: string;
+  patch: Partial<QuestionDraft>;
+}
 
-    } catch (e) {
-      console.error(e);
-      setAnalysisError("深度分析失败，请稍后重试。");
-    } finally {
-      setIsDeepAnalyzing(false);
-    }
-  };
+const createDraft = (images: QuestionImage[]): QuestionDraft => ({
+  id: createImageId(),
+  updatedAt: Date.now(),
+  images,
+  subject: '职测',
+  category: '言语理解与表达',
+  subCategory: '',
+  questionText: '',
+  aiAnalysis: '',
+  myThinking: '',
+  correctResolution: '',
+  correctAnswer: '',
+  rootCause: '',
+  suggestion: '',
+  causeTags: [],
+  masteryStatus: null,
+  analysisError: null,
+});
 
-  const handleSave = () => {
-    if (!image) return;
-    const newQ: Question = {
-      id: Date.now().toString(),
-      imageUrl: image,
-      subject,
-      category,
-      subCategory,
-      questionText: 'Image Question',
-      aiAnalysis,
-      myThinking,
-      correctResolution,
-      rootCause, // Save the deep analysis
-      masteryStatus: tempMastery,
-      createdAt: Date.now(),
-      reviewCount: 0,
-      lastReviewedAt: null,
-    };
-    onSave(newQ);
-  };
+const saveDraft = async (draft: QuestionDraft) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  tx.objectStore(DRAFT_STORE).put({ ...draft, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
 
-  if (!image) {
-    return (
-      <div className="p-6 flex flex-col items-center justify-center h-full pb-24">
-        <h2 className="text-xl font-bold mb-8">录入错题</h2>
-        <label className="w-64 h-64 border-2 border-dashed border-blue-300 rounded-3xl flex flex-col items-center justify-center bg-blue-50 cursor-pointer hover:bg-blue-100 transition-colors">
-          <Camera size={48} className="text-blue-500 mb-4" />
-          <span className="text-blue-600 font-medium">拍照 / 上传截图</span>
-          <span className="text-blue-400 text-xs mt-2">支持AI自动识别分类</span>
-          <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
-        </label>
-      </div>
-    );
-  }
+const loadDrafts = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readonly');
+  const drafts = await requestToPromise<QuestionDraft[]>(tx.objectStore(DRAFT_STORE).getAll());
+  return drafts.sort((a, b) => b.updatedAt - a.updatedAt);
+};
 
-  return (
-    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
-      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
-        <button onClick={() => setImage(null)} className="text-gray-500 text-sm">重新上传</button>
-        <span className="font-bold text-gray-800">编辑错题详情</span>
-        <button 
-          onClick={handleSave} 
-          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1"
-        >
-          <Save size={14} /> 保存
-        </button>
-      </div>
+const deleteDraft = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  tx.objectStore(DRAFT_STORE).delete(id);
+  await transactionDone(tx);
+};
 
-      <div className="p-4 space-y-6">
-        {/* Image Preview */}
-        <div className="bg-white p-2 rounded-xl border shadow-sm">
-           <img src={image} alt="Wrong Question" className="w-full h-auto rounded-lg max-h-60 object-contain bg-black" />
-        </div>
+const emitDraftChange = (id: string, patch: Partial<QuestionDraft>) =>
+  window.dispatchEvent(new CustomEvent<DraftChange>(DRAFT_EVENT, { detail: { id, patch } }));
 
-        {/* AI Status */}
-        {isAnalyzing && (
-          <div className="bg-blue-50 text-blue-700 p-3 rounded-lg flex items-center gap-2 text-sm animate-pulse">
-            <Brain size={16} /> AI正在分析题型和考点...
-          </div>
-        )}
-        {analysisError && (
-          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
-            {analysisError}
-          </div>
-        )}
+// Merges a late result into the stored draft and hands it to the form if that draft is open.
+// A draft saved or discarded in the meantime is left alone.
+const patchDraft = async (id: string, patch: Partial<QuestionDraft>) => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  const current = await requestToPromise<QuestionDraft | undefined>(tx.objectStore(DRAFT_STORE).get(id));
+  if (!current) return;
+  tx.objectStore(DRAFT_STORE).put({ ...current, ...patch, updatedAt: Date.now() });
+  await transactionDone(tx);
+  emitDraftChange(id, patch);
+};
 
-        {/* Classification */}
-        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-4">
-          <div className="flex items-center gap-2 mb-2">
-             <FileText size={18} className="text-blue-600"/>
-             <h3 className="font-bold text-gray-800">题型归类</h3>
-          </div>
-          
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-xs text-gray-500 mb-1">科目</label>
-              <select 
-                value={subject} 
-                onChange={e => {
-                  setSubject(e.target.value as any);
-                  setCategory(CATEGORIES[e.target.value as any][0]);
-                }}
-                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
-              >
-                <option value="职测">职测</option>
-                <option value="综应">综应</option>
-              </select>
-            </div>
-            <div>
-              <label className="block text-xs text-gray-500 mb-1">大类</label>
-              <select 
-                value={category}
-                onChange={e => setCategory(e.target.value as any)}
-                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
-              >
-                {CATEGORIES[subject].map(c => (
-                  <option key={c} value={c}>{c}</option>
-                ))}
-              </select>
-            </div>
-          </div>
-          <div>
-            <label className="block text-xs text-gray-500 mb-1">细分题型 (AI识别)</label>
-            <input 
-              type="text" 
-              value={subCategory}
-              onChange={e => setSubCategory(e.target.value)}
-              placeholder="例如：逻辑填空-成语辨析"
-              className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
-            />
-          </div>
-        </div>
+type DraftTask = 'classify' | 'root_cause';
+
+// AI calls run outside the form's lifetime, so the form can be left (or reopened) while they are in flight
+const runningDraftTasks = new Set<string>();
+
+const isDraftTaskRunning = (id: string, task: DraftTask) => runningDraftTasks.has(`${id}:${task}`);
+
+// Never rejects: failures end up in the draft's analysisError, and a final event lets
+// anything showing isDraftTaskRunning re-render once the task is gone
+const runDraftTask = async (id: string, task: DraftTask, run: () => Promise<Partial<QuestionDraft>>) => {
+  const key = `${id}:${task}`;
+  runningDraftTasks.add(key);
+  let patch: Partial<QuestionDraft>;
+  try {
+    patch = await run();
+  } catch (err) {
+    console.error(err);
+    patch = { analysisError: describeAnalysisError(err) };
+  }
+  try {
+    await patchDraft(id, patch);
+  } catch (err) {
+    console.error(err);
+    // The result still reaches the open form even though it could not be stored
+    emitDraftChange(id, { ...patch, analysisError: describeStorageError(err) });
+  } finally {
+    runningDraftTasks.delete(key);
+    emitDraftChange(id, {});
+  }
+};
+
+// --- Image Processing ---
+
+interface CropRect {
+  // Fractions (0..1) of the rotated image, so the rect survives preview scaling
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface ImageEdits {
+  rotation: 0 | 90 | 180 | 270; // Clockwise degrees
+  crop: CropRect | null;
+  contrast: number; // Percent, 100 = unchanged
+}
+
+const DEFAULT_IMAGE_EDITS: ImageEdits = { rotation: 0, crop: null, contrast: 100 };
+
+const IMAGE_MAX_DIMENSION = 2000; // Longest side sent to the model and stored
+const IMAGE_BUDGET_BYTES = 500 * 1024;
+const THUMBNAIL_SIZE = 160;
+const JPEG_QUALITIES = [0.9, 0.8, 0.7, 0.6, 0.5];
+
+const loadImageElement = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('无法解码该图片格式'));
+    img.src = src;
+  });
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片编码失败')), type, quality);
+  });
+
+const applyContrast = (ctx: CanvasRenderingContext2D, width: number, height: number, percent: number) => {
+  const factor = percent / 100;
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] - 128) * factor + 128;
+    data[i + 1] = (data[i + 1] - 128) * factor + 128;
+    data[i + 2] = (data[i + 2] - 128) * factor + 128;
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+// Rotate, then crop (in rotated coordinates), then fit the longest side within maxDimension
+const renderEdits = (img: HTMLImageElement, { rotation, crop, contrast }: ImageEdits, maxDimension: number) => {
+  const quarterTurn = rotation === 90 || rotation === 270;
+  const rotatedWidth = quarterTurn ? img.naturalHeight : img.naturalWidth;
+  const rotatedHeight = quarterTurn ? img.naturalWidth : img.naturalHeight;
+  const region = crop || { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = region.width * rotatedWidth;
+  const cropHeight = region.height * rotatedHeight;
+  const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(cropWidth * scale));
+  canvas.height = Math.max(1, Math.round(cropHeight * scale));
+  const ctx = canvas.getContext('2d')!;
+  // Transparent PNG screenshots would otherwise turn black as JPEG
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-region.x * rotatedWidth + rotatedWidth / 2, -region.y * rotatedHeight + rotatedHeight / 2);
+  ctx.rotate(rotation * Math.PI / 180);
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+
+  if (contrast !== 100) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    applyContrast(ctx, canvas.width, canvas.height, contrast);
+  }
+  return canvas;
+};
+
+// Lowers JPEG quality first, then resolution, until the image fits the budget (or gives up at the floor)
+const encodeWithinBudget = async (canvas: HTMLCanvasElement, budget: number) => {
+  let current = canvas;
+  for (let round = 0; round < 3; round++) {
+    for (const quality of JPEG_QUALITIES) {
+      const blob = await canvasToBlob(current, 'image/jpeg', quality);
+      if (blob.size <= budget) return blob;
+    }
+    const smaller = document.createElement('canvas');
+    smaller.width = Math.round(current.width * 0.75);
+    smaller.height = Math.round(current.height * 0.75);
+    smaller.getContext('2d')!.drawImage(current, 0, 0, smaller.width, smaller.height);
+    current = smaller;
+  }
+  return canvasToBlob(current, 'image/jpeg', JPEG_QUALITIES[JPEG_QUALITIES.length - 1]);
+};
+
+// Returns a JPEG data URL within IMAGE_BUDGET_BYTES; throws if the browser cannot decode the source
+const processImage = async (src: string, edits: ImageEdits) => {
+  const img = await loadImageElement(src);
+  const blob = await encodeWithinBudget(renderEdits(img, edits, IMAGE_MAX_DIMENSION), IMAGE_BUDGET_BYTES);
+  return blobToDataUrl(blob);
+};
+
+const createThumbnail = async (image: Blob) => {
+  const url = URL.createObjectURL(image);
+  try {
+    const img = await loadImageElement(url);
+    return await canvasToBlob(renderEdits(img, DEFAULT_IMAGE_EDITS, THUMBNAIL_SIZE), 'image/jpeg', 0.7);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Quad = [Point, Point, Point, Point]; // Top-left, top-right, bottom-right, bottom-left
+
+const DETECT_WIDTH = 160; // Detection runs on a small copy of the frame
+const MIN_DOCUMENT_AREA = 0.2; // Fraction of the frame a detected page must cover
+
+const otsuThreshold = (gray: Uint8Array) => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (quad: Quad) =>
+  Math.abs(quad.reduce((acc, p, i) => {
+    const next = quad[(i + 1) % 4];
+    return acc + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+// Paper is usually the largest bright region: threshold, keep the biggest blob, and take its extreme corners
+const detectDocument = (source: CanvasImageSource, width: number, height: number): Quad | null => {
+  const scale = DETECT_WIDTH / width;
+  const w = DETECT_WIDTH;
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+
+  const gray = new Uint8Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  const threshold = otsuThreshold(gray);
+
+  const labels = new Int32Array(w * h);
+  let label = 0;
+  let bestLabel = 0;
+  let bestSize = 0;
+  const stack: number[] = [];
+  for (let start = 0; start < gray.length; start++) {
+    if (gray[start] <= threshold || labels[start]) continue;
+    label++;
+    labels[start] = label;
+    stack.push(start);
+    let size = 0;
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      size++;
+      const x = p % w;
+      const neighbors = [x > 0 ? p - 1 : -1, x < w - 1 ? p + 1 : -1, p - w, p + w];
+      for (const n of neighbors) {
+        if (n >= 0 && n < gray.length && !labels[n] && gray[n] > threshold) {
+          labels[n] = label;
+          stack.push(n);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = label;
+    }
+  }
+  if (bestSize < w * h * MIN_DOCUMENT_AREA) return null;
+
+  // Corners are the blob pixels extreme along the two diagonals
+  let tl = { x: 0, y: 0, score: Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: Infinity };
+  for (let p = 0; p < labels.length; p++) {
+    if (labels[p] !== bestLabel) continue;
+    const x = p % w;
+    const y = (p - x) / w;
+    if (x + y < tl.score) tl = { x, y, score: x + y };
+    if (x + y > br.score) br = { x, y, score: x + y };
+    if (x - y > tr.score) tr = { x, y, score: x - y };
+    if (x - y < bl.score) bl = { x, y, score: x - y };
+  }
+  const quad = [tl, tr, br, bl].map(({ x, y }) => ({ x: x / scale, y: y / scale })) as Quad;
+  return quadArea(quad) >= width * height * MIN_DOCUMENT_AREA ? quad : null;
+};
+
+// Solves the 8 unknowns of the homography mapping `from` onto `to` by Gaussian elimination
+const computeHomography = (from: Point[], to: Point[]) => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[r][k] -= factor * rows[col][k];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+// Warps the page outlined by `quad` into an upright rectangle
+const deskew = (source: HTMLCanvasElement, quad: Quad) => {
+  const [tl, tr, br, bl] = quad;
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const naturalWidth = Math.max(distance(tl, tr), distance(bl, br));
+  const naturalHeight = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, IMAGE_MAX_DIMENSION / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+  const h = computeHomography([{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }], quad);
+
+  const src = source.getContext('2d')!.getImageData(0, 0, source.width, source.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = h[6] * x + h[7] * y + 1;
+      const sx = Math.min(source.width - 1, Math.max(0, Math.round((h[0] * x + h[1] * y + h[2]) / d)));
+      const sy = Math.min(source.height - 1, Math.max(0, Math.round((h[3] * x + h[4] * y + h[5]) / d)));
+      const from = (sy * source.width + sx) * 4;
+      const to = (y * width + x) * 4;
+      out.data[to] = src.data[from];
+      out.data[to + 1] = src.data[from + 1];
+      out.data[to + 2] = src.data[from + 2];
+      out.data[to + 3] = 255;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+const PDF_PAGE_MAX_DIMENSION = 1600;
+
+// pdf.js is large and only needed for batch import, so it is loaded on first use
+const renderPdfPages = async (file: File) => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  try {
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: Math.min(3, PDF_PAGE_MAX_DIMENSION / Math.max(base.width, base.height)) });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+      pages.push(canvas.toDataURL('image/jpeg', 0.9));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+};
+
+// --- Backup Archive (ZIP: manifest.json + images/) ---
+
+const BACKUP_FORMAT = 'fantianshe-backup';
+// v1: a single `image` path per record; v2: `images` with roles, each with its own `file`;
+// v3: also the taxonomy, settings, exam sessions and reports
+const BACKUP_VERSION = 3;
+const MANIFEST_NAME = 'manifest.json';
+
+type BackupImage = StoredImage & { file?: string }; // Path of the image inside the archive
+type BackupRecord = Omit<StoredQuestion, 'images'> & { images: BackupImage[] };
+
+// The API key is never exported; it stays on the device it was entered on
+type BackupSettings = Partial<Omit<AppSettings, 'apiKey'>>;
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  questions: BackupRecord[];
+  taxonomy?: Taxonomy;
+  settings?: BackupSettings;
+  sessions?: ExamSession[];
+  reports?: PeriodReport[];
+}
+
+// Everything in an archive besides the questions
+interface BackupExtras {
+  taxonomy: Partial<Taxonomy> | null;
+  settings: BackupSettings | null;
+  sessions: ExamSession[];
+  reports: PeriodReport[];
+}
+
+type ConflictStrategy = 'skip' | 'overwrite' | 'keep_both';
+
+interface ImportCandidate {
+  question: StoredQuestion;
+  images: Map<string, Blob>; // Keyed by image id
+  repairs: string[];
+}
+
+interface ImportPreview {
+  candidates: ImportCandidate[];
+  rejected: { id: string; reason: string }[];
+  extras: BackupExtras;
+  invalidExtras: number; // Sessions and reports that failed validation
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Writes an uncompressed ("stored") ZIP; images are already compressed so deflate would gain little
+const createZip = (entries: { name: string; data: Uint8Array }[]) => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true);
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, dosTime, true);
+    header.setUint16(14, dosDate, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, data.length, true);
+    header.setUint32(24, data.length, true);
+    header.setUint16(28, nameBytes.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+    central.push(new Uint8Array(header.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+// Reads stored and deflated entries, so archives re-zipped by other tools still import
+const readZip = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) throw new Error('不是有效的备份文件');
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pos = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new Error('备份文件已损坏');
+    const method = view.getUint16(pos + 10, true);
+    const compressedSize = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    const localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, pos + 46, nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      files.set(name, raw);
+    } else if (method === 8) {
+      const stream = new Blob([raw]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    } else {
+      throw new Error(`不支持的压缩方式: ${method}`);
+    }
+    pos += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+const exportBackup = async () => {
+  const [entries, sessions, reports] = await Promise.all([loadStoredEntries(), loadExamSessions(), loadPeriodReports()]);
+  const { apiKey, ...settings } = loadSettings();
+  const files: { name: string; data: Uint8Array }[] = [];
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    questions: [],
+    taxonomy: loadTaxonomy(),
+    settings,
+    sessions,
+    reports,
+  };
+
+  for (const { record, images } of entries) {
+    const entry: BackupRecord = { ...record, images: [] };
+    for (const { image, blob } of images) {
+      if (!blob) continue;
+      const file = `images/${image.id}.${IMAGE_EXTENSIONS[blob.type] || 'jpg'}`;
+      files.push({ name: file, data: new Uint8Array(await blob.arrayBuffer()) });
+      entry.images.push({ ...image, file });
+    }
+    manifest.questions.push(entry);
+  }
+
+  files.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(files);
+};
+
+const ALL_CATEGORIES: QuestionCategory[] = [...CATEGORIES['职测'], ...CATEGORIES['综应'], '其他'];
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const MASTERY_STATUSES: unknown[] = [null, 'mastered', 'review_needed'];
+
+const isAnswerAttempt = (a: unknown): a is AnswerAttempt =>
+  isRecord(a) && isString(a.answer) && typeof a.correct === 'boolean' && isNumber(a.timeSpentMs) && isNumber(a.answeredAt);
+
+const isVariantQuestion = (v: unknown): v is VariantQuestion =>
+  isRecord(v) && isString(v.id) && isString(v.stem) && Array.isArray(v.options) && v.options.every(isString)
+  && isString(v.answer) && isString(v.explanation) && isNumber(v.createdAt)
+  && (v.attempts === undefined || Array.isArray(v.attempts) && v.attempts.every(isAnswerAttempt));
+
+const isChatMessage = (m: unknown): m is ChatMessage =>
+  isRecord(m) && (m.role === 'user' || m.role === 'tutor') && isString(m.text) && isNumber(m.at);
+
+const isWritingScore = (sc: unknown): sc is WritingScore =>
+  isRecord(sc) && isString(sc.criterion) && isNumber(sc.score) && isNumber(sc.maxScore) && isString(sc.comment);
+
+const isWritingGap = (g: unknown): g is WritingGap =>
+  isRecord(g) && isString(g.excerpt) && isString(g.issue) && isString(g.suggestion);
+
+const isWritingAttempt = (a: unknown): a is WritingAttempt =>
+  isRecord(a) && isString(a.id) && isString(a.text) && isNumber(a.wordCount) && isNumber(a.timeSpentMs) && isNumber(a.submittedAt)
+  && isString(a.summary) && Array.isArray(a.scores) && a.scores.every(isWritingScore) && Array.isArray(a.gaps) && a.gaps.every(isWritingGap);
+
+const isMasteryChange = (c: unknown): c is MasteryChange =>
+  isRecord(c) && MASTERY_STATUSES.includes(c.from) && MASTERY_STATUSES.includes(c.to) && isNumber(c.at);
+
+const isReviewSchedule = (s: unknown): s is ReviewSchedule =>
+  isRecord(s) && isNumber(s.ease) && isNumber(s.interval) && isNumber(s.repetitions) && isNumber(s.lapses) && isNumber(s.dueAt);
+
+const isTaxonomyNode = (n: unknown): n is TaxonomyNode =>
+  isRecord(n) && isString(n.name) && Array.isArray(n.children) && n.children.every(isTaxonomyNode);
+
+const isRubricCriterion = (c: unknown): c is RubricCriterion =>
+  isRecord(c) && isString(c.name) && isNumber(c.maxScore) && isString(c.description);
+
+const isExamSessionItem = (i: unknown): i is ExamSessionItem =>
+  isRecord(i) && isString(i.questionId) && isNumber(i.timeSpentMs)
+  && (i.answer === undefined || isString(i.answer))
+  && (i.correct === undefined || typeof i.correct === 'boolean')
+  && (i.revealed === undefined || typeof i.revealed === 'boolean')
+  && (i.grade === undefined || Object.keys(GRADE_LABELS).includes(i.grade as string));
+
+const isComposerConfig = (c: unknown): c is ComposerConfig =>
+  isRecord(c) && isNumber(c.total) && isNumber(c.seed) && isNumber(c.asOf)
+  && Array.isArray(c.mastery) && c.mastery.every((m: unknown) => Object.keys(MASTERY_FILTER_LABELS).includes(m as string))
+  && Array.isArray(c.quotas) && c.quotas.every((q: unknown) =>
+    isRecord(q) && ALL_CATEGORIES.includes(q.category as QuestionCategory) && isString(q.subCategory) && isNumber(q.count));
+
+const isExamSession = (s: unknown): s is ExamSession =>
+  isRecord(s) && isString(s.id) && isString(s.title) && Array.isArray(s.items) && s.items.every(isExamSessionItem)
+  && isNumber(s.currentIndex) && isNumber(s.startedAt) && (s.endedAt === null || isNumber(s.endedAt))
+  && (s.composer === undefined || isComposerConfig(s.composer));
+
+const isPeriodStats = (p: unknown): p is PeriodStats =>
+  isRecord(p) && isString(p.periodKey) && Array.isArray(p.categories) && Array.isArray(p.knowledgePoints) && Array.isArray(p.causeTags)
+  && [p.added, p.reviews, p.attempts, p.correctAttempts, p.conquered, p.relapsed].every(isNumber);
+
+const isStudyPlanStep = (step: unknown): step is StudyPlanStep =>
+  isRecord(step) && isString(step.days) && isString(step.focus) && Array.isArray(step.tasks) && step.tasks.every(isString);
+
+const isPeriodReport = (r: unknown): r is PeriodReport =>
+  isRecord(r) && isString(r.periodKey) && isNumber(r.generatedAt) && isPeriodStats(r.stats)
+  && (r.previous === null || isPeriodStats(r.previous)) && isString(r.overview) && isString(r.comparison)
+  && Array.isArray(r.weakPoints) && r.weakPoints.every(isString) && Array.isArray(r.plan) && r.plan.every(isStudyPlanStep);
+
+const SETTINGS_TEXT_FIELDS = ['model', 'classifyPrompt', 'rootCausePrompt', 'variantPrompt', 'tutorPrompt', 'reportPrompt', 'writingPrompt'] as const;
+
+// v2 archives have none of these, which reads as an empty set
+const readBackupExtras = (manifest: Record<string, unknown>) => {
+  let taxonomy: Partial<Taxonomy> | null = null;
+  const rawTaxonomy = manifest.taxonomy;
+  if (isRecord(rawTaxonomy)) {
+    taxonomy = {};
+    ALL_CATEGORIES.forEach(category => {
+      const nodes = rawTaxonomy[category];
+      if (Array.isArray(nodes)) taxonomy![category] = nodes.filter(isTaxonomyNode);
+    });
+  }
+
+  let settings: BackupSettings | null = null;
+  const rawSettings = manifest.settings;
+  if (isRecord(rawSettings)) {
+    settings = {};
+    SETTINGS_TEXT_FIELDS.forEach(field => {
+      const value = rawSettings[field];
+      if (isString(value)) settings![field] = value;
+    });
+    if (Array.isArray(rawSettings.writingRubric)) settings.writingRubric = rawSettings.writingRubric.filter(isRubricCriterion);
+  }
+
+  const sessions: unknown[] = Array.isArray(manifest.sessions) ? manifest.sessions : [];
+  const reports: unknown[] = Array.isArray(manifest.reports) ? manifest.reports : [];
+  const extras: BackupExtras = {
+    taxonomy,
+    settings,
+    sessions: sessions.filter(isExamSession),
+    reports: reports.filter(isPeriodReport),
+  };
+  return { extras, invalid: sessions.length + reports.length - extras.sessions.length - extras.reports.length };
+};
+
+// Checks a manifest entry against the Question shape, repairing what can be defaulted
+const validateBackupRecord = (raw: unknown): { question: StoredQuestion; repairs: string[] } | { error: string } => {
+  if (!isRecord(raw)) return { error: '记录格式无效' };
+  if (!isString(raw.id) || !raw.id) return { error: '缺少题目 ID' };
+
+  const repairs: string[] = [];
+  const text = (field: string) => {
+    const value = raw[field];
+    if (isString(value)) return value;
+    if (value !== undefined) repairs.push(`${field} 类型错误，已清空`);
+    return '';
+  };
+
+  let category = raw.category as QuestionCategory;
+  if (!ALL_CATEGORIES.includes(category)) {
+    repairs.push(`未知大类「${raw.category}」，已归为其他`);
+    category = '其他';
+  }
+
+  let subject = raw.subject as Question['subject'];
+  if (subject !== '职测' && subject !== '综应') {
+    subject = CATEGORIES['综应'].includes(category) ? '综应' : '职测';
+    repairs.push(`科目缺失，已推断为${subject}`);
+  }
+
+  let createdAt = raw.createdAt;
+  if (!isNumber(createdAt)) {
+    createdAt = Date.now();
+    repairs.push('录入时间缺失，已设为当前时间');
+  }
+
+  let masteryStatus = (raw.masteryStatus ?? null) as MasteryStatus;
+  if (!MASTERY_STATUSES.includes(masteryStatus)) {
+    repairs.push('掌握状态无效，已重置');
+    masteryStatus = null;
+  }
+
+  const question: StoredQuestion = {
+    id: raw.id,
+    subject,
+    category,
+    subCategory: text('subCategory'),
+    questionText: text('questionText'),
+    aiAnalysis: text('aiAnalysis'),
+    myThinking: text('myThinking'),
+    correctResolution: text('correctResolution'),
+    ...(isString(raw.suggestion)
+      ? { rootCause: isString(raw.rootCause) ? raw.rootCause : '', suggestion: raw.suggestion }
+      : splitLegacyRootCause(isString(raw.rootCause) ? raw.rootCause : '')),
+    masteryStatus,
+    createdAt: createdAt as number,
+    reviewCount: isNumber(raw.reviewCount) ? raw.reviewCount : 0,
+    lastReviewedAt: isNumber(raw.lastReviewedAt) ? raw.lastReviewedAt : null,
+    // Filled in by readBackup once the image files have been checked
+    images: [],
+  };
+
+  if (isString(raw.correctAnswer) && raw.correctAnswer) question.correctAnswer = raw.correctAnswer;
+  if (Array.isArray(raw.attempts)) {
+    const attempts = raw.attempts.filter(isAnswerAttempt);
+    if (attempts.length !== raw.attempts.length) repairs.push('部分作答记录无效，已丢弃');
+    question.attempts = attempts;
+  }
+
+  if (Array.isArray(raw.causeTags)) {
+    const causeTags = raw.causeTags.filter(isCauseTag);
+    if (causeTags.length !== raw.causeTags.length) repairs.push('部分错因标签无效，已丢弃');
+    question.causeTags = causeTags;
+  }
+
+  if (Array.isArray(raw.variants)) {
+    const variants = raw.variants.filter(isVariantQuestion);
+    if (variants.length !== raw.variants.length) repairs.push('部分变式题无效，已丢弃');
+    question.variants = variants;
+  }
+
+  if (Array.isArray(raw.chat)) {
+    const chat = raw.chat.filter(isChatMessage);
+    if (chat.length !== raw.chat.length) repairs.push('部分追问记录无效，已丢弃');
+    question.chat = chat;
+  }
+
+  if (Array.isArray(raw.writingAttempts)) {
+    const writingAttempts = raw.writingAttempts.filter(isWritingAttempt);
+    if (writingAttempts.length !== raw.writingAttempts.length) repairs.push('部分写作练习记录无效，已丢弃');
+    question.writingAttempts = writingAttempts;
+  }
+
+  if (Array.isArray(raw.reviewLog)) question.reviewLog = raw.reviewLog.filter(isNumber);
+  if (Array.isArray(raw.masteryLog)) question.masteryLog = raw.masteryLog.filter(isMasteryChange);
+
+  if (isReviewSchedule(raw.schedule)) {
+    question.schedule = raw.schedule;
+  } else {
+    question.schedule = createInitialSchedule(question);
+    if (raw.schedule !== undefined) repairs.push('复习计划无效，已重新生成');
+  }
+
+  return { question, repairs };
+};
+
+const readBackup = async (file: File): Promise<ImportPreview> => {
+  const files = await readZip(await file.arrayBuffer());
+  const manifestBytes = files.get(MANIFEST_NAME);
+  if (!manifestBytes) throw new Error('备份文件中缺少 manifest.json');
+
+  const manifest: unknown = JSON.parse(new TextDecoder().decode(manifestBytes));
+  if (!isRecord(manifest) || manifest.format !== BACKUP_FORMAT || !Array.isArray(manifest.questions)) {
+    throw new Error('无法识别的备份格式');
+  }
+  if (!isNumber(manifest.version) || manifest.version > BACKUP_VERSION) {
+    throw new Error('备份文件来自更新版本的应用，请先升级');
+  }
+
+  const { extras, invalid } = readBackupExtras(manifest);
+  const preview: ImportPreview = { candidates: [], rejected: [], extras, invalidExtras: invalid };
+  manifest.questions.forEach((raw: unknown, index: number) => {
+    const result = validateBackupRecord(raw);
+    if ('error' in result) {
+      preview.rejected.push({ id: isRecord(raw) && isString(raw.id) ? raw.id : `#${index + 1}`, reason: result.error });
+      return;
+    }
+    const { question, repairs } = result;
+    const record = raw as Record<string, unknown>;
+    const refs: unknown[] = Array.isArray(record.images)
+      ? record.images
+      : isString(record.image) ? [{ id: question.id, role: '题干', file: record.image }] : []; // v1 archives
+    const images = new Map<string, Blob>();
+    refs.forEach(ref => {
+      if (!isRecord(ref) || !isString(ref.id) || !isString(ref.file)) return;
+      const bytes = files.get(ref.file);
+      if (!bytes) return;
+      const ext = ref.file.split('.').pop() as string;
+      const mimeType = Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === ext) || 'image/jpeg';
+      images.set(ref.id, new Blob([bytes], { type: mimeType }));
+      question.images.push({ id: ref.id, role: IMAGE_ROLES.includes(ref.role as ImageRole) ? ref.role as ImageRole : '题干' });
+    });
+    // The text is worth keeping even when every image is gone, so such records come in as text-only questions
+    if (images.size !== refs.length) repairs.push(images.size > 0 ? '部分图片缺失，已跳过' : '图片缺失，已作为纯文字题导入');
+    preview.candidates.push({ question, images, repairs });
+  });
+  return preview;
+};
+
+// Resolves id conflicts against the current library; returns what should be written
+const resolveImport = (preview: ImportPreview, existingIds: Set<string>, strategy: ConflictStrategy) => {
+  const toWrite: { question: Question; images: Map<string, Blob> }[] = [];
+  preview.candidates.forEach(({ question, images }, index) => {
+    let record = question;
+    let blobs = images;
+    if (existingIds.has(question.id)) {
+      if (strategy === 'skip') return;
+      if (strategy === 'keep_both') {
+        // Image ids are global keys too, so the copy needs fresh ones to leave the original's images alone
+        const renamed = question.images.map(img => ({ ...img, id: createImageId() }));
+        blobs = new Map(renamed.map((img, i) => [img.id, images.get(question.images[i].id)!]));
+        record = { ...question, id: `${Date.now()}_${index}`, images: renamed };
+      }
+    }
+    toWrite.push({
+      question: { ...record, images: record.images.map(img => ({ ...img, url: URL.createObjectURL(blobs.get(img.id)!) })) },
+      images: blobs,
+    });
+  });
+  return toWrite;
+};
+
+// The taxonomy is merged and settings are only replaced on request; sessions and reports
+// follow the question conflict strategy, except that "keep both" keeps the local copy
+const importBackupExtras = async ({ taxonomy, settings, sessions, reports }: BackupExtras, strategy: ConflictStrategy, withSettings: boolean) => {
+  if (taxonomy) {
+    const current = loadTaxonomy();
+    saveTaxonomy(ALL_CATEGORIES.reduce((merged, category) => ({
+      ...merged,
+      [category]: mergeChildren(current[category] || [], taxonomy[category] || []),
+    }), current));
+  }
+  if (settings && withSettings) saveSettings({ ...loadSettings(), ...settings });
+  if (sessions.length === 0 && reports.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, REPORT_STORE], 'readwrite');
+  const [sessionIds, reportKeys] = await Promise.all([
+    requestToPromise(tx.objectStore(SESSION_STORE).getAllKeys()),
+    requestToPromise(tx.objectStore(REPORT_STORE).getAllKeys()),
+  ]);
+  const overwrite = strategy === 'overwrite';
+  sessions.filter(s => overwrite || !sessionIds.includes(s.id)).forEach(s => tx.objectStore(SESSION_STORE).put(s));
+  reports.filter(r => overwrite || !reportKeys.includes(r.periodKey)).forEach(r => tx.objectStore(REPORT_STORE).put(r));
+  await transactionDone(tx);
+};
+
+// --- Spaced Repetition (SM-2) ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MASTERED_INTERVAL_DAYS = 21; // Intervals this long count as "mastered"
+
+const GRADE_LABELS: Record<RecallGrade, string> = {
+  again: '重来',
+  hard: '困难',
+  good: '良好',
+  easy: '简单',
+};
+
+const startOfDay = (ts: number) => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const endOfDay = (ts: number) => startOfDay(ts) + DAY_MS - 1;
+
+const createInitialSchedule = (q: Pick<Question, 'masteryStatus' | 'createdAt' | 'lastReviewedAt' | 'reviewCount'>): ReviewSchedule => {
+  const lastSeen = q.lastReviewedAt || q.createdAt;
+  if (q.masteryStatus === 'mastered') {
+    return {
+      ease: DEFAULT_EASE,
+      interval: MASTERED_INTERVAL_DAYS,
+      repetitions: Math.max(q.reviewCount || 0, 3),
+      lapses: 0,
+      dueAt: startOfDay(lastSeen) + MASTERED_INTERVAL_DAYS * DAY_MS,
+    };
+  }
+  if (q.masteryStatus === 'review_needed') {
+    // Flagged questions are due immediately
+    return { ease: DEFAULT_EASE - 0.2, interval: 0, repetitions: 0, lapses: 0, dueAt: lastSeen };
+  }
+  return { ease: DEFAULT_EASE, interval: 0, repetitions: 0, lapses: 0, dueAt: startOfDay(lastSeen) + DAY_MS };
+};
+
+const scheduleReview = (schedule: ReviewSchedule, grade: RecallGrade, now: number = Date.now()): ReviewSchedule => {
+  let { ease, interval, repetitions, lapses } = schedule;
+
+  switch (grade) {
+    case 'again':
+      ease = Math.max(MIN_EASE, ease - 0.2);
+      interval = 1;
+      repetitions = 0;
+      lapses += 1;
+      break;
+    case 'hard':
+      ease = Math.max(MIN_EASE, ease - 0.15);
+      interval = Math.max(1, Math.round(interval * 1.2));
+      repetitions += 1;
+      break;
+    case 'good':
+      interval = repetitions === 0 ? 1 : repetitions === 1 ? 3 : Math.round(interval * ease);
+      repetitions += 1;
+      break;
+    case 'easy':
+      ease += 0.15;
+      interval = repetitions === 0 ? 4 : Math.round(interval * ease * 1.3);
+      repetitions += 1;
+      break;
+  }
+
+  return { ease, interval, repetitions, lapses, dueAt: startOfDay(now) + interval * DAY_MS };
+};
+
+// All mastery changes go through here so the analytics can track conversions over time
+const changeMastery = (q: Question, status: MasteryStatus, now: number = Date.now()): Question => {
+  const from = q.masteryStatus ?? null;
+  if (from === status) return q;
+  return { ...q, masteryStatus: status, masteryLog: [...(q.masteryLog || []), { from, to: status, at: now }] };
+};
+
+// Setting the flag by hand moves the schedule too, the way applyReview moves the flag:
+// 需加强 makes the question due today, 已掌握 pushes it out to at least the mastered interval
+const markMastery = (q: Question, status: MasteryStatus, now: number = Date.now()): Question => {
+  if ((q.masteryStatus ?? null) === status) return q;
+  let schedule = q.schedule || createInitialSchedule(q);
+  if (status === 'review_needed') {
+    schedule = { ...schedule, interval: 0, repetitions: 0, dueAt: now };
+  } else if (status === 'mastered') {
+    const interval = Math.max(schedule.interval, MASTERED_INTERVAL_DAYS);
+    schedule = { ...schedule, interval, repetitions: Math.max(schedule.repetitions, 3), dueAt: startOfDay(now) + interval * DAY_MS };
+  }
+  return changeMastery({ ...q, schedule }, status, now);
+};
+
+const recordReview = (q: Question, now: number = Date.now()): Question => ({
+  ...q,
+  reviewCount: (q.reviewCount || 0) + 1,
+  lastReviewedAt: now,
+  reviewLog: [...(q.reviewLog || []), now],
+});
+
+// Apply a graded review to a question, keeping the mastery flag in sync with the schedule
+const applyReview = (q: Question, grade: RecallGrade, now: number = Date.now()): Question => {
+  const schedule = scheduleReview(q.schedule || createInitialSchedule(q), grade, now);
+  let masteryStatus = q.masteryStatus ?? null;
+  if (grade === 'again') masteryStatus = 'review_needed';
+  else if (schedule.interval >= MASTERED_INTERVAL_DAYS) masteryStatus = 'mastered';
+
+  return changeMastery(recordReview({ ...q, schedule }, now), masteryStatus, now);
+};
+
+const isDue = (q: Question, now: number = Date.now()) =>
+  !!q.schedule && q.schedule.dueAt <= endOfDay(now);
+
+const getDueQuestions = (questions: Question[], now: number = Date.now()) =>
+  questions.filter(q => isDue(q, now)).sort((a, b) => a.schedule!.dueAt - b.schedule!.dueAt);
+
+const formatInterval = (days: number) => {
+  if (days <= 0) return '今天';
+  if (days < 30) return `${days}天`;
+  if (days < 365) return `${Math.round(days / 30)}个月`;
+  return `${(days / 365).toFixed(1)}年`;
+};
+
+// --- Answer Grading ---
+
+// Categories whose answers are often a computed number rather than an option letter
+const NUMERIC_CATEGORIES: QuestionCategory[] = ['数量关系', '资料分析'];
+// The one letter range used for answers, answer buttons and generated variants
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const DEFAULT_OPTION_COUNT = 4; // Buttons shown unless the answer uses a later letter
+// Letters at the start, alone or separated ("AC", "A、C", "答案：B"), so "B. Because…" reads as B rather than BCE
+const LEADING_CHOICE = /^\s*(?:正确答案|答案)?\s*[为是:：]?\s*([A-F](?:[\s,，、]*[A-F])*)(?![A-Z])/i;
+
+const normalizeChoice = (answer: string) => {
+  const letters = answer.match(LEADING_CHOICE)?.[1].toUpperCase().match(/[A-F]/g) || [];
+  return Array.from(new Set(letters)).sort().join('');
+};
+
+const parseNumber = (answer: string) => {
+  const value = parseFloat(answer.replace(/[,，\s%]/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+const isNumericAnswer = (answer: string) => /^\s*-?[\d,，]*\.?\d+\s*%?\s*$/.test(answer);
+
+const getAnswerKind = (q: Pick<Question, 'category' | 'correctAnswer'>): 'choice' | 'numeric' => {
+  if (q.correctAnswer) return isNumericAnswer(q.correctAnswer) ? 'numeric' : 'choice';
+  return NUMERIC_CATEGORIES.includes(q.category) ? 'numeric' : 'choice';
+};
+
+const NUMERIC_TOLERANCE = 0.005; // Relative, allows for rounding in 资料分析 estimates
+
+const gradeAnswer = (correctAnswer: string, answer: string) => {
+  if (isNumericAnswer(correctAnswer)) {
+    const expected = parseNumber(correctAnswer);
+    const actual = parseNumber(answer);
+    if (expected === null || actual === null) return false;
+    return Math.abs(actual - expected) <= Math.max(1e-9, Math.abs(expected) * NUMERIC_TOLERANCE);
+  }
+  const expected = normalizeChoice(correctAnswer);
+  return expected !== '' && normalizeChoice(answer) === expected;
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}秒` : `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+};
+
+// --- Exam Sessions ---
+
+// One question of a session, in the order it was presented
+interface ExamSessionItem {
+  questionId: string;
+  answer?: string;
+  correct?: boolean; // Only set when an answer was submitted and graded
+  revealed?: boolean; // The explanation was shown
+  grade?: RecallGrade;
+  timeSpentMs: number; // Total time the question was on screen
+}
+
+interface ExamSession {
+  id: string;
+  title: string;
+  items: ExamSessionItem[];
+  currentIndex: number;
+  startedAt: number;
+  endedAt: number | null; // null while the session can still be resumed
+  composer?: ComposerConfig; // Set for composed papers so their settings can be reused
+}
+
+const REDO_TITLE_SUFFIX = ' · 错题重做';
+
+const createExamSession = (title: string, questions: Question[], composer?: ComposerConfig): ExamSession => ({
+  id: Date.now().toString(),
+  title,
+  items: questions.map(q => ({ questionId: q.id, timeSpentMs: 0 })),
+  currentIndex: 0,
+  startedAt: Date.now(),
+  endedAt: null,
+  composer,
+});
+
+// Answered wrongly, or rated as forgotten when there was nothing to grade
+const isMissedItem = (item: ExamSessionItem) => item.correct === false || item.grade === 'again';
+
+const summarizeSession = (session: ExamSession) => {
+  const graded = session.items.filter(i => i.correct !== undefined);
+  return {
+    total: session.items.length,
+    graded: graded.length,
+    correct: graded.filter(i => i.correct).length,
+    missed: session.items.filter(isMissedItem).length,
+    timeSpentMs: session.items.reduce((sum, i) => sum + i.timeSpentMs, 0),
+  };
+};
+
+const saveExamSession = async (session: ExamSession) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).put(session);
+  await transactionDone(tx);
+};
+
+const loadExamSessions = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise<ExamSession[]>(tx.objectStore(SESSION_STORE).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+const deleteExamSession = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readwrite');
+  tx.objectStore(SESSION_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// --- Mock Exam Templates ---
+
+interface MockSection {
+  category: QuestionCategory;
+  count: number;
+  minutes: number; // Time budget for the whole section
+}
+
+interface MockTemplate {
+  id: string;
+  name: string;
+  subject: Question['subject'];
+  sections: MockSection[];
+}
+
+// Section order and proportions follow the 山东事业编统考 papers
+const MOCK_TEMPLATES: MockTemplate[] = [
+  {
+    id: 'zhice_full',
+    name: '职测全真模考',
+    subject: '职测',
+    sections: [
+      { category: '常识判断', count: 20, minutes: 12 },
+      { category: '言语理解与表达', count: 30, minutes: 30 },
+      { category: '数量关系', count: 10, minutes: 15 },
+      { category: '判断推理', count: 35, minutes: 35 },
+      { category: '资料分析', count: 15, minutes: 25 },
+    ],
+  },
+  {
+    id: 'zhice_half',
+    name: '职测半套速练',
+    subject: '职测',
+    sections: [
+      { category: '常识判断', count: 10, minutes: 6 },
+      { category: '言语理解与表达', count: 15, minutes: 15 },
+      { category: '数量关系', count: 5, minutes: 8 },
+      { category: '判断推理', count: 18, minutes: 18 },
+      { category: '资料分析', count: 5, minutes: 10 },
+    ],
+  },
+  {
+    id: 'zongying',
+    name: '综应模考',
+    subject: '综应',
+    sections: [
+      { category: '综合应用-案例分析', count: 3, minutes: 90 },
+      { category: '综合应用-文书写作', count: 1, minutes: 60 },
+    ],
+  },
+];
+
+interface MockPaperSection {
+  section: MockSection;
+  questions: Question[];
+}
+
+// Fills each section from the wrong-question pool, weak questions first
+const buildMockPaper = (template: MockTemplate, pool: Question[]): MockPaperSection[] =>
+  template.sections.map(section => {
+    const candidates = pool.filter(q => q.category === section.category);
+    const weak = shuffle(candidates.filter(q => q.masteryStatus === 'review_needed'));
+    const rest = shuffle(candidates.filter(q => q.masteryStatus !== 'review_needed'));
+    return { section, questions: [...weak, ...rest].slice(0, section.count) };
+  });
+
+const OUTLIER_SLOW_FACTOR = 2; // More than twice the per-question budget
+const OUTLIER_FAST_FACTOR = 0.3; // Answered (wrongly) in under a third of it
+
+interface MockQuestionResult {
+  question: Question;
+  answer: string;
+  correct: boolean | null; // null when there is no stored answer to grade against
+  timeSpentMs: number;
+  budgetMs: number;
+}
+
+const gradeMockPaper = (paper: MockPaperSection[], answers: Record<string, string>, timings: Record<string, number>) =>
+  paper.map(({ section, questions }) => {
+    const budgetMs = (section.minutes * 60 * 1000) / section.count;
+    const results: MockQuestionResult[] = questions.map(q => {
+      const answer = answers[q.id] || '';
+      return {
+        question: q,
+        answer,
+        // Written answers are scored by the model from the report, not graded here
+        correct: q.correctAnswer && !isWritingQuestion(q) ? (answer ? gradeAnswer(q.correctAnswer, answer) : false) : null,
+        timeSpentMs: timings[q.id] || 0,
+        budgetMs,
+      };
+    });
+    return { section, results };
+  });
+
+const isTimeOutlier = (r: MockQuestionResult) =>
+  r.timeSpentMs > r.budgetMs * OUTLIER_SLOW_FACTOR
+  || (r.correct === false && r.answer !== '' && r.timeSpentMs < r.budgetMs * OUTLIER_FAST_FACTOR);
+
+// --- Writing Practice (综应) ---
+
+// One scoring dimension; the model scores each criterion from 0 to maxScore
+interface RubricCriterion {
+  name: string;
+  maxScore: number;
+  description: string; // What earns the points, passed to the model verbatim
+}
+
+const DEFAULT_WRITING_RUBRIC: RubricCriterion[] = [
+  { name: '要点覆盖', maxScore: 40, description: '是否答出参考答案中的采分要点，要点是否准确、完整、紧扣设问' },
+  { name: '结构', maxScore: 25, description: '层次是否清晰，是否总分作答、分条列点，条目之间逻辑顺序是否合理' },
+  { name: '格式', maxScore: 15, description: '文书写作看文种格式（标题、称谓、正文、落款、日期）与字数要求；案例分析看是否按设问逐一作答' },
+  { name: '语言', maxScore: 20, description: '表述是否规范、简洁、得体，是否使用政策与公文语言，有无病句和错别字' },
+];
+
+interface WritingScore {
+  criterion: string;
+  score: number;
+  maxScore: number; // Copied from the rubric when scored, so old attempts keep their scale
+  comment: string;
+}
+
+// Where the answer falls short of the model answer
+interface WritingGap {
+  excerpt: string; // Quote from the answer; empty when a point is missing altogether
+  issue: string;
+  suggestion: string;
+}
+
+interface WritingAttempt {
+  id: string;
+  text: string;
+  wordCount: number;
+  timeSpentMs: number;
+  submittedAt: number;
+  scores: WritingScore[];
+  summary: string;
+  gaps: WritingGap[];
+}
+
+const WRITING_CATEGORIES: QuestionCategory[] = ['综合应用-案例分析', '综合应用-文书写作'];
+
+const isWritingQuestion = (q: Pick<Question, 'category'>) => WRITING_CATEGORIES.includes(q.category);
+
+// Suggested time for one question, taken from the 综应 mock paper
+const getWritingTimeLimitMs = (category: QuestionCategory) => {
+  const section = MOCK_TEMPLATES.flatMap(t => t.sections).find(s => s.category === category);
+  return section ? section.minutes / section.count * 60 * 1000 : null;
+};
+
+// Exam word limits count Chinese characters, so whitespace is ignored
+const countWords = (text: string) => text.replace(/\s/g, '').length;
+
+const getAttemptTotal = (attempt: WritingAttempt) => ({
+  score: attempt.scores.reduce((sum, s) => sum + s.score, 0),
+  maxScore: attempt.scores.reduce((sum, s) => sum + s.maxScore, 0),
+});
+
+// Percentages stay comparable when the rubric changes between attempts
+const getAttemptPercent = (attempt: WritingAttempt) => {
+  const { score, maxScore } = getAttemptTotal(attempt);
+  return maxScore > 0 ? Math.round(score / maxScore * 100) : 0;
+};
+
+const formatRubric = (rubric: RubricCriterion[]) =>
+  rubric.map(c => `${c.name}（满分 ${c.maxScore} 分）：${c.description}`).join('\n');
+
+// --- Analytics ---
+
+const WEEK_MS = 7 * DAY_MS;
+const TREND_WEEKS = 12;
+const HEATMAP_WEEKS = 16;
+
+// Weeks start on Monday
+const startOfWeek = (ts: number) => {
+  const d = new Date(startOfDay(ts));
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+// Review moments of a question; older records only know their last review
+const getReviewTimes = (q: Question) =>
+  q.reviewLog && q.reviewLog.length > 0 ? q.reviewLog : q.lastReviewedAt ? [q.lastReviewedAt] : [];
+
+const getActivityTimes = (q: Question) => [...getReviewTimes(q), ...(q.attempts || []).map(a => a.answeredAt)];
+
+interface WeeklyPoint {
+  weekStart: number;
+  added: number;
+  reviewed: number;
+  conquered: number; // review_needed -> mastered transitions
+}
+
+const computeWeeklyTrend = (questions: Question[], weeks = TREND_WEEKS, now = Date.now()): WeeklyPoint[] => {
+  const firstWeek = startOfWeek(now) - (weeks - 1) * WEEK_MS;
+  const points: WeeklyPoint[] = Array.from({ length: weeks }, (_, i) => ({
+    weekStart: firstWeek + i * WEEK_MS, added: 0, reviewed: 0, conquered: 0,
+  }));
+  // DST shifts make a week slightly off 7 days; rounding keeps the bucket right
+  const bucket = (ts: number) => {
+    const i = Math.round((startOfWeek(ts) - firstWeek) / WEEK_MS);
+    return i >= 0 && i < weeks ? points[i] : null;
+  };
+
+  questions.forEach(q => {
+    const added = bucket(q.createdAt);
+    if (added) added.added++;
+    getReviewTimes(q).forEach(ts => {
+      const p = bucket(ts);
+      if (p) p.reviewed++;
+    });
+    (q.masteryLog || []).forEach(c => {
+      const p = bucket(c.at);
+      if (p && c.from === 'review_needed' && c.to === 'mastered') p.conquered++;
+    });
+  });
+  return points;
+};
+
+// Share of questions ever flagged "需加强" that are mastered now
+const computeConversionRate = (questions: Question[]) => {
+  const flagged = questions.filter(q =>
+    q.masteryStatus === 'review_needed' || (q.masteryLog || []).some(c => c.to === 'review_needed'));
+  const conquered = flagged.filter(q => q.masteryStatus === 'mastered');
+  return { flagged: flagged.length, conquered: conquered.length };
+};
+
+// Distinct questions practised per day
+const computeActivityByDay = (questions: Question[]) => {
+  const days = new Map<number, Set<string>>();
+  questions.forEach(q => {
+    getActivityTimes(q).forEach(ts => {
+      const day = startOfDay(ts);
+      if (!days.has(day)) days.set(day, new Set());
+      days.get(day)!.add(q.id);
+    });
+  });
+  const counts = new Map<number, number>();
+  days.forEach((ids, day) => counts.set(day, ids.size));
+  return counts;
+};
+
+interface KnowledgePointStats {
+  category: QuestionCategory;
+  subCategory: string;
+  count: number;
+  reviewNeeded: number;
+  attempts: number;
+  wrongAttempts: number;
+  lapses: number;
+  weakness: number; // 0..1, higher is weaker
+}
+
+const computeKnowledgePointStats = (questions: Question[]): KnowledgePointStats[] => {
+  const groups = new Map<string, KnowledgePointStats>();
+  questions.forEach(q => {
+    const subCategory = q.subCategory || '未分类';
+    const key = `${q.category}|${subCategory}`;
+    if (!groups.has(key)) {
+      groups.set(key, { category: q.category, subCategory, count: 0, reviewNeeded: 0, attempts: 0, wrongAttempts: 0, lapses: 0, weakness: 0 });
+    }
+    const g = groups.get(key)!;
+    g.count++;
+    if (q.masteryStatus === 'review_needed') g.reviewNeeded++;
+    g.attempts += (q.attempts || []).length;
+    g.wrongAttempts += (q.attempts || []).filter(a => !a.correct).length;
+    g.lapses += q.schedule?.lapses || 0;
+  });
+
+  return Array.from(groups.values()).map(g => {
+    // Laplace-smoothed error rate so one lucky attempt doesn't dominate
+    const errorRate = (g.wrongAttempts + 1) / (g.attempts + 2);
+    const flaggedShare = g.reviewNeeded / g.count;
+    const lapseScore = Math.min(1, g.lapses / g.count / 3);
+    return { ...g, weakness: errorRate * 0.5 + flaggedShare * 0.3 + lapseScore * 0.2 };
+  });
+};
+
+interface CauseGroup {
+  tag: CauseTag;
+  questions: Question[];
+  reviewNeeded: number;
+}
+
+// A question appears under every tag it carries; empty groups are kept so the full vocabulary is visible
+const groupByCauseTag = (questions: Question[]): CauseGroup[] =>
+  CAUSE_TAGS
+    .map(tag => {
+      const tagged = questions.filter(q => q.causeTags?.includes(tag));
+      return { tag, questions: tagged, reviewNeeded: tagged.filter(q => q.masteryStatus === 'review_needed').length };
+    })
+    .sort((a, b) => b.questions.length - a.questions.length);
+
+// --- Period Reports ---
+
+// Aggregates for one half-month bucket (see getPeriodKey)
+interface PeriodStats {
+  periodKey: string;
+  added: number; // Questions recorded in the period; the breakdowns below cover these
+  categories: [QuestionCategory, number][];
+  knowledgePoints: { label: string; count: number }[];
+  causeTags: { tag: CauseTag; count: number }[];
+  reviews: number; // Activity in the period across the whole library
+  attempts: number;
+  correctAttempts: number;
+  conquered: number; // review_needed -> mastered
+  relapsed: number; // mastered -> review_needed
+}
+
+interface StudyPlanStep {
+  days: string; // e.g. "第1-3天"
+  focus: string;
+  tasks: string[];
+}
+
+// One saved report per period; regenerating replaces it
+interface PeriodReport {
+  periodKey: string;
+  generatedAt: number;
+  stats: PeriodStats; // Snapshot the report was written from
+  previous: PeriodStats | null;
+  overview: string;
+  comparison: string;
+  weakPoints: string[];
+  plan: StudyPlanStep[];
+}
+
+const TOP_KNOWLEDGE_POINTS = 8;
+
+const computePeriodStats = (questions: Question[], periodKey: string): PeriodStats => {
+  const bounds = getPeriodBounds(periodKey);
+  const inPeriod = (ts: number) => !!bounds && ts >= bounds.start && ts < bounds.end;
+  const added = questions.filter(q => inPeriod(q.createdAt));
+
+  const knowledgePoints = new Map<string, number>();
+  added.forEach(q => {
+    const label = `${q.category}·${q.subCategory || '未分类'}`;
+    knowledgePoints.set(label, (knowledgePoints.get(label) || 0) + 1);
+  });
+
+  const activity = questions.map(q => ({
+    attempts: (q.attempts || []).filter(a => inPeriod(a.answeredAt)),
+    changes: (q.masteryLog || []).filter(c => inPeriod(c.at)),
+    reviews: getReviewTimes(q).filter(inPeriod).length,
+  }));
+  const attempts = activity.flatMap(a => a.attempts);
+  const changes = activity.flatMap(a => a.changes);
+
+  return {
+    periodKey,
+    added: added.length,
+    categories: countByCategory(added),
+    knowledgePoints: Array.from(knowledgePoints, ([label, count]) => ({ label, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_KNOWLEDGE_POINTS),
+    causeTags: groupByCauseTag(added)
+      .filter(g => g.questions.length > 0)
+      .map(g => ({ tag: g.tag, count: g.questions.length })),
+    reviews: activity.reduce((sum, a) => sum + a.reviews, 0),
+    attempts: attempts.length,
+    correctAttempts: attempts.filter(a => a.correct).length,
+    conquered: changes.filter(c => c.from === 'review_needed' && c.to === 'mastered').length,
+    relapsed: changes.filter(c => c.from === 'mastered' && c.to === 'review_needed').length,
+  };
+};
+
+const getPreviousPeriodKey = (periodKey: string) => {
+  const bounds = getPeriodBounds(periodKey);
+  return bounds ? getPeriodKey(bounds.start - 1) : null;
+};
+
+const formatPeriodStats = (stats: PeriodStats) => [
+  `新增错题：${stats.added} 道`,
+  `题型分布：${stats.categories.map(([c, n]) => `${c} ${n}`).join('，') || '无'}`,
+  `高频考点：${stats.knowledgePoints.map(k => `${k.label} ${k.count}`).join('，') || '无'}`,
+  `错因分布：${stats.causeTags.map(c => `${c.tag} ${c.count}`).join('，') || '未标注'}`,
+  `复习次数：${stats.reviews}`,
+  `重做作答：${stats.attempts} 次，答对 ${stats.correctAttempts} 次`,
+  `需加强→已掌握：${stats.conquered} 道；已掌握→需加强：${stats.relapsed} 道`,
+].join('\n');
+
+const MAX_REPORT_MISTAKES = 40;
+
+// Text fields carry the content the report needs, so no images are sent
+const formatPeriodMistakes = (questions: Question[], periodKey: string) => {
+  const bounds = getPeriodBounds(periodKey);
+  return questions
+    .filter(q => bounds && q.createdAt >= bounds.start && q.createdAt < bounds.end)
+    .slice(0, MAX_REPORT_MISTAKES)
+    .map(q => [
+      `- [${q.category}·${q.subCategory || '未分类'}]`,
+      q.questionText && `题干：${q.questionText.slice(0, 60)}`,
+      q.causeTags?.length && `错因：${q.causeTags.join('、')}`,
+      q.rootCause && `诊断：${q.rootCause.slice(0, 80)}`,
+      q.masteryStatus === 'mastered' ? '（已掌握）' : q.masteryStatus === 'review_needed' ? '（需加强）' : '',
+    ].filter(Boolean).join(' '))
+    .join('\n');
+};
+
+const savePeriodReport = async (report: PeriodReport) => {
+  const db = await openDatabase();
+  const tx = db.transaction(REPORT_STORE, 'readwrite');
+  tx.objectStore(REPORT_STORE).put(report);
+  await transactionDone(tx);
+};
+
+const loadPeriodReports = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(REPORT_STORE, 'readonly');
+  const reports = await requestToPromise<PeriodReport[]>(tx.objectStore(REPORT_STORE).getAll());
+  return reports.sort((a, b) => (getPeriodBounds(b.periodKey)?.start || 0) - (getPeriodBounds(a.periodKey)?.start || 0));
+};
+
+const deletePeriodReport = async (periodKey: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction(REPORT_STORE, 'readwrite');
+  tx.objectStore(REPORT_STORE).delete(periodKey);
+  await transactionDone(tx);
+};
+
+// --- Exam Composer ---
+
+type MasteryFilter = 'review_needed' | 'unmarked' | 'mastered';
+
+const MASTERY_FILTER_LABELS: Record<MasteryFilter, string> = {
+  review_needed: '需加强',
+  unmarked: '未标记',
+  mastered: '已掌握',
+};
+
+interface ComposerQuota {
+  category: QuestionCategory;
+  subCategory: string; // Empty for the whole category
+  count: number;
+}
+
+interface ComposerConfig {
+  total: number; // Quotas are filled first; the remainder comes from the whole pool
+  quotas: ComposerQuota[];
+  mastery: MasteryFilter[];
+  seed: number;
+  // When the paper was drawn; staleness and recent failures are measured from here. Mastery, attempts
+  // and lapses are read as they are now, so a stored paper is replayed by id rather than redrawn.
+  asOf: number;
+}
+
+interface ComposerShortfall {
+  label: string;
+  requested: number;
+  available: number;
+}
+
+const STALE_AFTER_DAYS = 30; // Unreviewed this long counts as fully stale
+const RECENT_FAILURE_DAYS = 14; // A wrong answer stops counting as recent after this
+// Relative pull of each signal; the base keeps strong, fresh questions selectable
+const COMPOSER_WEIGHTS = { base: 0.2, weakness: 1, stale: 0.5, recentFailure: 1 };
+
+const createSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const createComposerConfig = (): ComposerConfig => ({
+  total: 20,
+  quotas: [],
+  mastery: ['review_needed', 'unmarked'],
+  seed: createSeed(),
+  asOf: Date.now(),
+});
+
+// mulberry32: tiny, fast and good enough to make shuffles reproducible from a seed
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getMasteryFilter = (q: Question): MasteryFilter => q.masteryStatus || 'unmarked';
+
+const describeQuota = (quota: ComposerQuota) => quota.subCategory || quota.category;
+
+const matchesQuota = (q: Question, quota: ComposerQuota) =>
+  q.category === quota.category && (!quota.subCategory || isUnderPath(q.subCategory, quota.subCategory));
+
+// Weak knowledge point, long since last review and recently answered wrong all raise the chance of being picked
+const computeSelectionWeight = (q: Question, weakness: number, asOf: number) => {
+  const lastSeen = Math.max(q.createdAt, ...getReviewTimes(q).filter(t => t <= asOf));
+  const stale = Math.min(1, Math.max(0, asOf - lastSeen) / DAY_MS / STALE_AFTER_DAYS);
+  const lastFailure = Math.max(0, ...(q.attempts || []).filter(a => !a.correct && a.answeredAt <= asOf).map(a => a.answeredAt));
+  const recentFailure = lastFailure ? Math.max(0, 1 - (asOf - lastFailure) / DAY_MS / RECENT_FAILURE_DAYS) : 0;
+  return COMPOSER_WEIGHTS.base
+    + COMPOSER_WEIGHTS.weakness * weakness
+    + COMPOSER_WEIGHTS.stale * stale
+    + COMPOSER_WEIGHTS.recentFailure * recentFailure;
+};
+
+// Weighted sampling without replacement (Efraimidis–Spirakis): each question draws key = u^(1/weight) once,
+// quotas then take their highest keys, and the paper is shuffled with the same seeded generator.
+const composeExam = (pool: Question[], config: ComposerConfig) => {
+  const random = createSeededRandom(config.seed);
+  const weakness = new Map(
+    computeKnowledgePointStats(pool).map(s => [`${s.category}|${s.subCategory}`, s.weakness])
+  );
+  // Pool order depends on how the library was loaded; sorting keeps the draw stable for a seed
+  const eligible = pool
+    .filter(q => config.mastery.includes(getMasteryFilter(q)))
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const keys = new Map(eligible.map(q => {
+    const weight = computeSelectionWeight(q, weakness.get(`${q.category}|${q.subCategory || '未分类'}`) || 0, config.asOf);
+    return [q.id, Math.pow(random(), 1 / weight)];
+  }));
+  const ranked = [...eligible].sort((a, b) => keys.get(b.id)! - keys.get(a.id)!);
+
+  const chosen = new Set<Question>();
+  const shortfalls: ComposerShortfall[] = [];
+  config.quotas.forEach(quota => {
+    const candidates = ranked.filter(q => !chosen.has(q) && matchesQuota(q, quota));
+    candidates.slice(0, quota.count).forEach(q => chosen.add(q));
+    if (candidates.length < quota.count) {
+      shortfalls.push({ label: describeQuota(quota), requested: quota.count, available: candidates.length });
+    }
+  });
+  const remaining = config.total - chosen.size;
+  ranked.filter(q => !chosen.has(q)).slice(0, Math.max(0, remaining)).forEach(q => chosen.add(q));
+  if (chosen.size < config.total) {
+    shortfalls.push({ label: '总题量', requested: config.total, available: chosen.size });
+  }
+
+  return { questions: shuffle([...chosen], random), eligible: eligible.length, shortfalls };
+};
+
+// --- Search ---
+
+interface SearchFilters {
+  subject: '' | Question['subject'];
+  category: '' | QuestionCategory;
+  subCategory: string;
+  mastery: 'all' | 'mastered' | 'review_needed' | 'unmarked';
+  from: string; // yyyy-mm-dd from <input type="date">, inclusive
+  to: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = { subject: '', category: '', subCategory: '', mastery: 'all', from: '', to: '' };
+
+// Chinese has no word boundaries, so matching works on whitespace/punctuation-free text and character bigrams
+const normalizeSearchText = (text: string) => text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+
+const toBigrams = (text: string) => {
+  const grams = new Set<string>();
+  for (let i = 0; i < text.length - 1; i++) grams.add(text.slice(i, i + 2));
+  return grams;
+};
+
+interface SearchDocument {
+  text: string;
+  bigrams: Set<string>;
+}
+
+const buildSearchDocument = (q: Question): SearchDocument => {
+  const text = normalizeSearchText([
+    q.questionText, q.subCategory, q.aiAnalysis, q.correctResolution, q.myThinking, q.rootCause || '', q.suggestion || '', ...(q.causeTags || []),
+  ].join('\n'));
+  return { text, bigrams: toBigrams(text) };
+};
+
+const MIN_BIGRAM_COVERAGE = 0.8; // Tolerates a stray character or typo in longer queries
+
+// Space-separated terms must all match; exact substring hits rank above fuzzy bigram hits
+const scoreDocument = (doc: SearchDocument, terms: string[]) => {
+  let score = 0;
+  for (const term of terms) {
+    if (doc.text.includes(term)) {
+      score += 1;
+      continue;
+    }
+    const grams = toBigrams(term);
+    if (grams.size < 2) return 0;
+    let hits = 0;
+    grams.forEach(g => { if (doc.bigrams.has(g)) hits++; });
+    const coverage = hits / grams.size;
+    if (coverage < MIN_BIGRAM_COVERAGE) return 0;
+    score += coverage * 0.5;
+  }
+  return score;
+};
+
+const matchesFilters = (q: Question, f: SearchFilters) => {
+  if (f.subject && q.subject !== f.subject) return false;
+  if (f.category && q.category !== f.category) return false;
+  if (f.subCategory && !isUnderPath(q.subCategory, f.subCategory)) return false;
+  if (f.mastery === 'unmarked' && q.masteryStatus) return false;
+  if (f.mastery !== 'all' && f.mastery !== 'unmarked' && q.masteryStatus !== f.mastery) return false;
+  if (f.from && q.createdAt < new Date(`${f.from}T00:00:00`).getTime()) return false;
+  if (f.to && q.createdAt > endOfDay(new Date(`${f.to}T00:00:00`).getTime())) return false;
+  return true;
+};
+
+const hasActiveFilters = (f: SearchFilters) =>
+  (Object.keys(EMPTY_FILTERS) as (keyof SearchFilters)[]).some(key => f[key] !== EMPTY_FILTERS[key]);
+
+const searchQuestions = (questions: Question[], index: Map<string, SearchDocument>, query: string, filters: SearchFilters) => {
+  const terms = query.split(/\s+/).map(normalizeSearchText).filter(Boolean);
+  const filtered = questions.filter(q => matchesFilters(q, filters));
+  if (terms.length === 0) return filtered;
+
+  return filtered
+    .map(q => ({ q, score: scoreDocument(index.get(q.id) || buildSearchDocument(q), terms) }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score || b.q.createdAt - a.q.createdAt)
+    .map(r => r.q);
+};
+
+// --- Knowledge Point Taxonomy ---
+
+// A question's subCategory is a path through this tree, e.g. "逻辑填空-成语辨析"
+const KP_SEPARATOR = '-';
+const TAXONOMY_KEY = 'sd_exam_taxonomy_v1';
+const TAXONOMY_EVENT = 'taxonomy-change';
+
+interface TaxonomyNode {
+  name: string;
+  children: TaxonomyNode[];
+}
+
+type Taxonomy = Record<QuestionCategory, TaxonomyNode[]>;
+
+const kp = (name: string, children: string[] | TaxonomyNode[] = []): TaxonomyNode => ({
+  name,
+  children: children.map(c => typeof c === 'string' ? { name: c, children: [] } : c),
+});
+
+// Standard outline of the 山东事业编统考 职测/综应 syllabus
+const SEED_TAXONOMY: Taxonomy = {
+  '言语理解与表达': [
+    kp('逻辑填空', ['实词辨析', '成语辨析', '关联词', '对应关系']),
+    kp('片段阅读', ['主旨概括', '意图判断', '细节理解', '标题选择', '态度观点']),
+    kp('语句表达', ['语句排序', '语句填空', '接语选择']),
+    kp('病句辨析'),
+  ],
+  '数量关系': [
+    kp('数字推理', ['多级数列', '分数数列', '幂次数列', '递推数列']),
+    kp('数学运算', ['工程问题', '行程问题', '经济利润', '排列组合与概率', '几何问题', '容斥问题', '最值问题', '和差倍比', '年龄问题', '日期问题']),
+  ],
+  '判断推理': [
+    kp('图形推理', ['位置规律', '样式规律', '属性规律', '数量规律', '空间重构']),
+    kp('定义判断', ['单定义', '多定义']),
+    kp('类比推理', ['语义关系', '逻辑关系', '语法关系']),
+    kp('逻辑判断', ['翻译推理', '真假推理', '分析推理', '加强论证', '削弱论证', '原因解释']),
+  ],
+  '资料分析': [
+    kp('增长率'), kp('增长量'), kp('比重'), kp('平均数'), kp('倍数'),
+    kp('基期量'), kp('现期量'), kp('间隔增长率'), kp('综合分析'),
+  ],
+  '常识判断': [
+    kp('政治'), kp('法律', ['宪法', '民法', '刑法', '行政法']), kp('经济'), kp('历史'),
+    kp('地理'), kp('科技'), kp('人文'), kp('公文'), kp('时政'), kp('管理'),
+  ],
+  '综合应用-案例分析': [
+    kp('归纳概括'), kp('综合分析'), kp('提出对策'), kp('材料作文'),
+  ],
+  '综合应用-文书写作': [
+    kp('公文写作', ['通知', '报告', '请示', '函']),
+    kp('事务文书', ['讲话稿', '倡议书', '调研报告', '工作总结']),
+  ],
+  '其他': [],
+};
+
+const loadTaxonomy = (): Taxonomy => {
+  try {
+    const data = localStorage.getItem(TAXONOMY_KEY);
+    return data ? { ...SEED_TAXONOMY, ...JSON.parse(data) } : SEED_TAXONOMY;
+  } catch {
+    return SEED_TAXONOMY;
+  }
+};
+
+const saveTaxonomy = (taxonomy: Taxonomy) => {
+  localStorage.setItem(TAXONOMY_KEY, JSON.stringify(taxonomy));
+  window.dispatchEvent(new Event(TAXONOMY_EVENT));
+};
+
+// Keeps every component showing the tree in sync after edits
+const useTaxonomy = () => {
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(loadTaxonomy);
+  useEffect(() => {
+    const refresh = () => setTaxonomy(loadTaxonomy());
+    window.addEventListener(TAXONOMY_EVENT, refresh);
+    return () => window.removeEventListener(TAXONOMY_EVENT, refresh);
+  }, []);
+  return taxonomy;
+};
+
+// Separators inside a name would break the path
+const sanitizeNodeName = (name: string) => name.replace(/[-—–]/g, '').trim();
+
+const splitPath = (path: string) => path.split(/\s*[-—–]+\s*/).map(sanitizeNodeName).filter(Boolean);
+
+const cleanPath = (path: string) => splitPath(path).join(KP_SEPARATOR);
+
+interface FlatNode {
+  path: string;
+  name: string;
+  depth: number;
+}
+
+const flattenTaxonomy = (nodes: TaxonomyNode[], prefix = '', depth = 0): FlatNode[] =>
+  nodes.flatMap(node => {
+    const path = prefix ? `${prefix}${KP_SEPARATOR}${node.name}` : node.name;
+    return [{ path, name: node.name, depth }, ...flattenTaxonomy(node.children, path, depth + 1)];
+  });
+
+const isUnderPath = (subCategory: string, path: string) =>
+  subCategory === path || subCategory.startsWith(path + KP_SEPARATOR);
+
+// Tree edits return a new Taxonomy; nodes are never mutated in place
+const updateNodes = (nodes: TaxonomyNode[], segments: string[], fn: (siblings: TaxonomyNode[], name: string) => TaxonomyNode[]): TaxonomyNode[] => {
+  const [head, ...rest] = segments;
+  if (rest.length === 0) return fn(nodes, head);
+  return nodes.map(n => n.name === head ? { ...n, children: updateNodes(n.children, rest, fn) } : n);
+};
+
+const mergeChildren = (into: TaxonomyNode[], from: TaxonomyNode[]): TaxonomyNode[] =>
+  from.reduce((acc, node) => {
+    const existing = acc.find(n => n.name === node.name);
+    return existing
+      ? acc.map(n => n === existing ? { ...n, children: mergeChildren(n.children, node.children) } : n)
+      : [...acc, node];
+  }, into);
+
+const findNode = (nodes: TaxonomyNode[], path: string): TaxonomyNode | undefined => {
+  let current: TaxonomyNode | undefined;
+  let level = nodes;
+  for (const segment of splitPath(path)) {
+    current = level.find(n => n.name === segment);
+    if (!current) return undefined;
+    level = current.children;
+  }
+  return current;
+};
+
+const addTaxonomyPath = (taxonomy: Taxonomy, category: QuestionCategory, path: string): Taxonomy => {
+  const segments = splitPath(path);
+  const build = (nodes: TaxonomyNode[], rest: string[]): TaxonomyNode[] => {
+    if (rest.length === 0) return nodes;
+    const [head, ...tail] = rest;
+    const existing = nodes.find(n => n.name === head);
+    if (existing) return nodes.map(n => n === existing ? { ...n, children: build(n.children, tail) } : n);
+    return [...nodes, { name: head, children: build([], tail) }];
+  };
+  return { ...taxonomy, [category]: build(taxonomy[category] || [], segments) };
+};
+
+const removeTaxonomyPath = (taxonomy: Taxonomy, category: QuestionCategory, path: string): Taxonomy => ({
+  ...taxonomy,
+  [category]: updateNodes(taxonomy[category] || [], splitPath(path), (siblings, name) => siblings.filter(n => n.name !== name)),
+});
+
+const renameTaxonomyNode = (taxonomy: Taxonomy, category: QuestionCategory, path: string, newName: string): Taxonomy => ({
+  ...taxonomy,
+  [category]: updateNodes(taxonomy[category] || [], splitPath(path), (siblings, name) => {
+    const node = siblings.find(n => n.name === name);
+    const clash = siblings.find(n => n.name === newName);
+    if (!node) return siblings;
+    // Renaming onto an existing sibling merges the two
+    if (clash && clash !== node) {
+      return siblings
+        .filter(n => n !== node)
+        .map(n => n === clash ? { ...n, children: mergeChildren(n.children, node.children) } : n);
+    }
+    return siblings.map(n => n === node ? { ...n, name: newName } : n);
+  }),
+});
+
+// Moves a node's children under the target and removes it
+const mergeTaxonomyNodes = (taxonomy: Taxonomy, category: QuestionCategory, fromPath: string, toPath: string): Taxonomy => {
+  const from = findNode(taxonomy[category] || [], fromPath);
+  const withTarget = addTaxonomyPath(taxonomy, category, toPath);
+  const removed = removeTaxonomyPath(withTarget, category, fromPath);
+  return {
+    ...removed,
+    [category]: updateNodes(removed[category], splitPath(toPath), (siblings, name) =>
+      siblings.map(n => n.name === name ? { ...n, children: mergeChildren(n.children, from?.children || []) } : n)),
+  };
+};
+
+// Re-tags every question at or below fromPath; returns only the changed questions
+const retagQuestions = (questions: Question[], category: QuestionCategory, fromPath: string, toPath: string) =>
+  questions
+    .filter(q => q.category === category && isUnderPath(q.subCategory, fromPath))
+    .map(q => ({ ...q, subCategory: toPath + q.subCategory.slice(fromPath.length) }));
+
+// Maps free-form labels like "成语辨析" or "逻辑填空—成语辨析" onto an existing node
+const resolveKnowledgePoint = (taxonomy: Taxonomy, category: QuestionCategory, raw: string): { path: string; known: boolean } => {
+  const path = cleanPath(raw);
+  if (!path) return { path: '', known: true };
+  const nodes = flattenTaxonomy(taxonomy[category] || []);
+  const target = normalizeSearchText(path);
+
+  const exact = nodes.find(n => normalizeSearchText(n.path) === target);
+  if (exact) return { path: exact.path, known: true };
+
+  const bySuffix = nodes.filter(n => normalizeSearchText(n.path).endsWith(target));
+  if (bySuffix.length === 1) return { path: bySuffix[0].path, known: true };
+
+  // Truncated labels such as "逻辑填空-成语"
+  const byPrefix = nodes.filter(n => normalizeSearchText(n.path).startsWith(target));
+  if (byPrefix.length === 1) return { path: byPrefix[0].path, known: true };
+
+  const leaf = normalizeSearchText(splitPath(path).pop() || '');
+  const byLeaf = nodes.filter(n => normalizeSearchText(n.name) === leaf);
+  if (byLeaf.length === 1 && splitPath(path).length === 1) return { path: byLeaf[0].path, known: true };
+
+  return { path, known: false };
+};
+
+const isKnownKnowledgePoint = (taxonomy: Taxonomy, category: QuestionCategory, path: string) =>
+  !path || !!findNode(taxonomy[category] || [], path);
+
+// Compact outline for prompts: one line per category, paths separated by "；"
+const formatTaxonomyForPrompt = (taxonomy: Taxonomy, categories: QuestionCategory[]) =>
+  categories
+    .map(c => `【${c}】${flattenTaxonomy(taxonomy[c] || []).map(n => n.path).join('；') || '（暂无）'}`)
+    .join('\n');
+
+// --- Analysis Service ---
+
+type AnalysisTask = 'classify' | 'root_cause' | 'variants' | 'tutor' | 'report' | 'writing' | 'ping';
+
+type AnalysisErrorKind = 'missing_key' | 'auth' | 'quota' | 'transient' | 'malformed' | 'unknown';
+
+class AnalysisError extends Error {
+  constructor(
+    public kind: AnalysisErrorKind,
+    message: string,
+    public raw?: string, // Model output that failed validation, if any
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+const ANALYSIS_ERROR_MESSAGES: Record<AnalysisErrorKind, string> = {
+  missing_key: '未配置 API Key，无法调用 AI。',
+  auth: 'API Key 无效或没有权限，请检查后重试。',
+  quota: 'AI 调用额度已用完或请求过于频繁，请稍后再试。',
+  transient: '网络或服务暂时不可用，请稍后重试。',
+  malformed: 'AI 返回的内容格式异常，请重试或手动填写。',
+  unknown: 'AI 分析失败，请稍后重试。',
+};
+
+const describeAnalysisError = (err: unknown) =>
+  ANALYSIS_ERROR_MESSAGES[err instanceof AnalysisError ? err.kind : 'unknown'];
+
+interface ImagePart {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+interface ImageInput {
+  role: ImageRole;
+  dataUrl: string;
+}
+
+interface GenerateRequest {
+  task: AnalysisTask;
+  prompt: string;
+  images: ImagePart[];
+}
+
+// A provider turns a prompt (plus images) into raw model text; validation happens in the service
+interface AnalysisProvider {
+  name: string;
+  generate: (request: GenerateRequest) => Promise<string>;
+}
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+// Map SDK/HTTP failures onto our error kinds
+const classifyProviderError = (err: unknown): AnalysisError => {
+  if (err instanceof AnalysisError) return err;
+  const message = err instanceof Error ? err.message : String(err);
+  if (/API_KEY_INVALID|API key not valid|PERMISSION_DENIED|\b(401|403)\b/i.test(message)) {
+    return new AnalysisError('auth', message);
+  }
+  if (/RESOURCE_EXHAUSTED|quota|\b429\b/i.test(message)) {
+    return new AnalysisError('quota', message);
+  }
+  if (/UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL|\b(500|502|503|504)\b|Failed to fetch|NetworkError|network/i.test(message)) {
+    return new AnalysisError('transient', message);
+  }
+  return new AnalysisError('unknown', message);
+};
+
+const createGeminiProvider = (apiKey: string | undefined, model: string = DEFAULT_MODEL): AnalysisProvider => ({
+  name: 'gemini',
+  generate: async ({ prompt, images }) => {
+    if (!apiKey) throw new AnalysisError('missing_key', 'API Key missing');
+    const ai = new GoogleGenAI({ apiKey });
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            ...images.map(image => ({ inlineData: image })),
+            { text: prompt }
+          ]
+        }
+      });
+      return response.text || '';
+    } catch (err) {
+      throw classifyProviderError(err);
+    }
+  },
+});
+
+// Tutor replies are plain text; every other task answers with JSON
+const MOCK_RESPONSES: Record<AnalysisTask, object | string> = {
+  classify: {
+    subject: '职测',
+    category: '言语理解与表达',
+    subCategory: '逻辑填空-成语辨析',
+    questionText: '依次填入画横线部分最恰当的一项是（  ）',
+    analysis: '考查成语的语义侧重与搭配对象，干扰项多为近义成语。',
+    solution: '结合语境中的对应关系，排除感情色彩不符的选项，答案为 B。',
+    correctAnswer: 'B',
+  },
+  root_cause: {
+    analysis: '学员错在只凭语感选择了熟悉的成语，而正确逻辑是先找出横线处与上下文的对应关系再比较语义侧重。',
+    refinedSubCategory: '逻辑填空-成语辨析-语义侧重',
+    suggestion: '整理近 10 道成语辨析错题，为每组易混成语写出使用对象与感情色彩。',
+    causeTags: ['概念混淆', '陷阱选项'],
+  },
+  variants: {
+    variants: [
+      {
+        stem: '他做事一向______，从不拖泥带水，深得同事信任。',
+        options: ['雷厉风行', '风驰电掣', '大刀阔斧', '当机立断'],
+        answer: 'A',
+        explanation: '“雷厉风行”形容办事声势猛烈、行动迅速，侧重作风；“风驰电掣”只形容速度快，对象多为物，不能修饰人的做事风格。',
+      },
+    ],
+  },
+  report: {
+    overview: '本期新增错题集中在言语理解与表达，成语辨析类占比最高，主要错因是概念混淆。',
+    comparison: '与上期相比，新增错题减少 3 道，重做正确率从 55% 提升到 68%，但判断推理的错题有所增加。',
+    weakPoints: ['逻辑填空-成语辨析：易混成语语义侧重分不清', '逻辑判断-翻译推理：逆否命题转换出错'],
+    plan: [
+      { days: '第1-3天', focus: '成语辨析', tasks: ['整理本期 6 道成语错题的易混词组', '每天限时做 15 道逻辑填空'] },
+      { days: '第4-7天', focus: '翻译推理', tasks: ['默写翻译推理规则', '重做本期翻译推理错题并复述思路'] },
+    ],
+  },
+  writing: {
+    scores: [
+      { criterion: '要点覆盖', score: 26, comment: '答出了“加强宣传”“完善机制”两个要点，遗漏了“部门协同”。' },
+      { criterion: '结构', score: 20, comment: '分条作答、层次清楚，但缺少总括句。' },
+      { criterion: '格式', score: 12, comment: '标题和落款齐全，日期写法不规范。' },
+      { criterion: '语言', score: 15, comment: '整体通顺，个别表述口语化。' },
+    ],
+    summary: '要点覆盖是主要失分项，建议先列出参考答案的采分点再动笔。',
+    gaps: [
+      { excerpt: '', issue: '遗漏要点“建立部门协同机制”', suggestion: '材料第三段提到多部门推诿，对策中应对应写出协同机制。' },
+      { excerpt: '大家要多注意安全', issue: '表述口语化', suggestion: '改为“切实增强安全防范意识”。' },
+    ],
+  },
+  tutor: '关键在于先找横线处的对应关系：后半句“从不拖泥带水”说明要填的是形容做事作风利落的词，所以排除只形容速度的“风驰电掣”。',
+  ping: { ok: true },
+};
+
+// Deterministic, offline provider for development and tests
+const createMockProvider = (): AnalysisProvider => ({
+  name: 'mock',
+  generate: async ({ task }) => {
+    const response = MOCK_RESPONSES[task];
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  },
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const RETRYABLE_ERRORS: AnalysisErrorKind[] = ['quota', 'transient'];
+
+const withRetry = async <T,>(fn: () => Promise<T>, retries = 2, baseDelayMs = 1000): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = classifyProviderError(err);
+      if (attempt >= retries || !RETRYABLE_ERRORS.includes(error.kind)) throw error;
+      // Exponential backoff with jitter
+      await sleep(baseDelayMs * 2 ** attempt + Math.random() * 250);
+    }
+  }
+};
+
+// Math inside a JSON string: $$…$$, $…$, \(…\) or \[…\], with the delimiter backslashes single or doubled.
+// A segment never runs past an unescaped quote, so it stays within one string value.
+const MATH_SEGMENT = /\$\$(?:[^"\\]|\\[\s\S])*?\$\$|\$(?:[^"\\$]|\\[\s\S])*?\$|\\\\?\((?:[^"\\]|\\[\s\S])*?\\\\?\)|\\\\?\[(?:[^"\\]|\\[\s\S])*?\\\\?\]/g;
+// Inside math a lone backslash starts a command (\therefore, \because, \underline...) unless it can only be
+// a JSON escape: a quote, a line break or tab before a non-letter, or a complete \uXXXX
+const MATH_JSON_ESCAPE = /^(?:["/]|[bfnrt](?![a-zA-Z])|u[0-9a-fA-F]{4})/;
+// Outside math only escapes JSON would reject are repaired, including \u without four hex digits
+const JSON_ESCAPE = /^(?:["/bfnrt]|u[0-9a-fA-F]{4})/;
+
+// Models often forget to double the backslashes of LaTeX, which JSON.parse then misreads or rejects
+const doubleLoneBackslashes = (text: string, keep: RegExp) =>
+  text.replace(/\\+/g, (run: string, offset: number) => {
+    const next = text.slice(offset + run.length, offset + run.length + 5);
+    return run.length % 2 === 1 && !keep.test(next) ? `${run}\\` : run;
+  });
+
+const repairLatexEscapes = (json: string) =>
+  doubleLoneBackslashes(json.replace(MATH_SEGMENT, math => doubleLoneBackslashes(math, MATH_JSON_ESCAPE)), JSON_ESCAPE);
+
+// Models sometimes wrap JSON in ``` fences or add a sentence around it
+const extractJson = (text: string): unknown => {
+  const unfenced = text.replace(/```(?:json)?/g, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  if (start < 0 || end <= start) throw new AnalysisError('malformed', 'No JSON object in model output', text);
+  try {
+    return JSON.parse(repairLatexEscapes(unfenced.slice(start, end + 1)));
+  } catch {
+    throw new AnalysisError('malformed', 'Invalid JSON in model output', text);
+  }
+};
+
+type FieldSchema = { type: 'string'; required?: boolean } | { type: 'enum'; values: readonly string[]; required?: boolean };
+
+// Validates that `data` is an object with the given fields; optional fields default to ''
+const validateShape = <K extends string,>(data: unknown, schema: Record<K, FieldSchema>, raw: string) => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new AnalysisError('malformed', 'Model output is not an object', raw);
+  }
+  const record = data as Record<string, unknown>;
+  const result = {} as Record<K, string>;
+  (Object.keys(schema) as K[]).forEach(key => {
+    const spec = schema[key];
+    const value = record[key];
+    if (value === undefined || value === null || value === '') {
+      if (spec.required) throw new AnalysisError('malformed', `Missing field "${key}"`, raw);
+      result[key] = '';
+      return;
+    }
+    if (typeof value !== 'string') throw new AnalysisError('malformed', `Field "${key}" is not a string`, raw);
+    if (spec.type === 'enum' && !spec.values.includes(value)) {
+      if (spec.required) throw new AnalysisError('malformed', `Field "${key}" has unexpected value "${value}"`, raw);
+      result[key] = '';
+      return;
+    }
+    result[key] = value.trim();
+  });
+  return result;
+};
+
+interface ClassifyResult {
+  subject: Question['subject'];
+  category: QuestionCategory | null; // null when the model named an unknown category
+  subCategory: string;
+  questionText: string;
+  analysis: string;
+  solution: string;
+  correctAnswer: string;
+}
+
+interface RootCauseInput {
+  subject: Question['subject'];
+  category: QuestionCategory;
+  subCategory: string;
+  myThinking: string;
+  correctResolution: string;
+  images: ImageInput[];
+}
+
+interface VariantInput {
+  subject: Question['subject'];
+  category: QuestionCategory;
+  subCategory: string;
+  questionText: string;
+  correctAnswer: string;
+  correctResolution: string;
+  rootCause: string;
+  suggestion: string;
+  causeTags: CauseTag[];
+  images: ImageInput[];
+}
+
+interface TutorInput {
+  subject: Question['subject'];
+  category: QuestionCategory;
+  subCategory: string;
+  questionText: string;
+  myThinking: string;
+  correctAnswer: string;
+  correctResolution: string;
+  rootCause: string;
+  suggestion: string;
+  images: ImageInput[];
+}
+
+interface ReportInput {
+  periodKey: string;
+  stats: PeriodStats;
+  previous: PeriodStats | null;
+  mistakes: string; // One line per mistake, see formatPeriodMistakes
+}
+
+type ReportResult = Pick<PeriodReport, 'overview' | 'comparison' | 'weakPoints' | 'plan'>;
+
+interface WritingInput {
+  category: QuestionCategory;
+  subCategory: string;
+  questionText: string;
+  correctResolution: string; // Used as the model answer
+  answer: string;
+  timeSpentMs: number;
+  images: ImageInput[];
+}
+
+type WritingResult = Pick<WritingAttempt, 'scores' | 'summary' | 'gaps'>;
+
+interface RootCauseResult {
+  analysis: string;
+  suggestion: string;
+  refinedSubCategory: string;
+  causeTags: CauseTag[];
+}
+
+// Shared by the prompts whose fields are shown with RichText
+const RICH_TEXT_FORMAT_RULES = `
+  【书写格式】标注“（Markdown）”的字段按以下格式书写：
+  - 用 Markdown 分段、列表，关键结论用 ==高亮== 标出；
+  - 公式和计算过程用 LaTeX：行内写在 $...$ 中，例如 $\\frac{A}{1+r}$，单独成行的写在 $$...$$ 中；
+  - 多组数据的比较、计算可以用 Markdown 表格；
+  - JSON 字符串中的反斜杠和换行必须转义：LaTeX 的 \\frac 写成 \\\\frac，换行写成 \\n。`;
+
+const DEFAULT_CLASSIFY_PROMPT = `
+  你是一个山东事业编统考（职测/综应）的辅导专家。请分析这张错题截图。
+  
+  请返回一个纯JSON格式的回答，不要用 \`\`\` 代码块包裹。JSON字段如下：
+  {
+    "subject": "职测" 或 "综应",
+    "category": "属于哪个大类（例如：言语理解与表达, 数量关系, 判断推理, 资料分析, 常识判断, 综合应用-案例分析, 综合应用-文书写作）",
+    "subCategory": "考点路径：从下方【考点体系】中选择最贴切的一项，原样返回（例如：逻辑填空-成语辨析）；都不合适时按同样的“-”格式提出新考点",
+    "questionText": "提取题干主要文字",
+    "analysis": "（Markdown）分析题目的考点、难点，以及容易做错的陷阱。",
+    "solution": "（Markdown）详细的正确解析思路，计算题写出完整的公式和计算步骤。",
+    "correctAnswer": "正确答案。选择题填选项字母（多选如 AC），计算题填数值；无法确定时返回空字符串。"
+  }
+
+${RICH_TEXT_FORMAT_RULES}
+
+  【考点体系】
+  {{knowledgePoints}}
+`;
+
+const DEFAULT_ROOT_CAUSE_PROMPT = `
+  你是一名顶级公考辅导专家（山东事业编统考方向）。请根据学员提供的【学员思路】与【正确解析】进行差异对比，精准诊断痛点。
+
+  【基本信息】
+  科目：{{subject}}
+  大类：{{category}}
+  细分题型：{{subCategory}}
+
+  【学员思路】
+  {{myThinking}}
+
+  【正确解析】
+  {{correctResolution}}
+
+  请返回纯JSON格式，确保字段内容详实、具体、有针对性：
+  {
+    "analysis": "（Markdown）请具体指出学员的思维误区。不要泛泛而谈。例如：指出具体的逻辑谬误（如‘偷换概念’）、知识盲区（如‘混淆增长率与增长量’）或解题习惯问题（如‘未看完选项即作答’）。必须包含‘学员错在...而正确逻辑是...’的对比。",
+    "refinedSubCategory": "更精准的考点路径，优先从下方【考点体系】中选择并原样返回（例如：将‘逻辑填空’细化为‘逻辑填空-对应关系’）；体系中没有合适节点时可按同样的“-”格式提出新考点。若当前标签已足够精准，返回空字符串。",
+    "suggestion": "极具操作性的行动指南。拒绝‘多做题’等废话。例如：‘建议整理[主体不一致]的错题集’、‘每天默写一次[资料分析速算公式]’、‘对比A选项和B选项的细微差别，注意[限定词]的陷阱’。",
+    "causeTags": ["错因标签数组，从【错因标签】中选择 1-3 个最主要的，原样返回"]
+  }
+${RICH_TEXT_FORMAT_RULES}
+
+  【错因标签】
+  {{causeTags}}
+
+  【考点体系】
+  {{knowledgePoints}}
+`;
+
+const DEFAULT_VARIANT_PROMPT = `
+  你是一名山东事业编统考（职测）命题专家。学员做错了下面这道题，请围绕同一考点、同一陷阱，命制 {{count}} 道全新的单项选择题，帮助学员举一反三。
+
+  【原题信息】
+  大类：{{category}}
+  考点：{{subCategory}}
+  题干：{{questionText}}
+  正确答案：{{correctAnswer}}
+  正确解析：{{correctResolution}}
+
+  【学员的错因诊断】
+  错因标签：{{causeTags}}
+  诊断：{{rootCause}}
+  改进方案：{{suggestion}}
+
+  命题要求：
+  1. 不要改写原题，题干材料、数据或情境必须是新的，但考查的知识点和解题方法与原题一致。
+  2. 每道题至少设置一个干扰项，专门针对上面诊断出的思维误区：按学员的错误思路会恰好选中它。
+  3. 难度与真题相当，4 个选项，只有一个正确答案。
+  4. 解析需说明正确思路，并点明那个针对性干扰项错在哪里。
+
+  请返回纯JSON格式：
+  {
+    "variants": [
+      {
+        "stem": "题干",
+        "options": ["A选项内容（不带字母）", "B选项内容", "C选项内容", "D选项内容"],
+        "answer": "正确选项字母，如 B",
+        "explanation": "解析"
+      }
+    ]
+  }
+`;
+
+const DEFAULT_TUTOR_PROMPT = `
+  你是一名耐心的山东事业编统考辅导老师。学员已经看过这道错题的解析和错因诊断，但仍有没弄懂的地方，请回答学员的追问。
+
+  【题目信息】
+  科目：{{subject}}
+  大类：{{category}}
+  考点：{{subCategory}}
+  题干：{{questionText}}
+  正确答案：{{correctAnswer}}
+
+  【学员当时的思路】
+  {{myThinking}}
+
+  【正确解析】
+  {{correctResolution}}
+
+  【错因诊断】
+  {{rootCause}}
+  改进方案：{{suggestion}}
+
+  【此前的对话】
+  {{history}}
+
+  【学员的新问题】
+  {{message}}
+
+  回答要求：直接回答这个问题，把学员卡住的那一步拆开讲清楚，不要整段重复解析；必要时举一个更简单的同类例子。用纯文本回答，不要返回 JSON。
+`;
+
+const DEFAULT_REPORT_PROMPT = `
+  你是一名山东事业编统考（职测/综应）的备考规划师。请根据学员【{{period}}】的错题数据写一份半月复盘报告，并与上一期对比。
+
+  【本期数据】
+  {{stats}}
+
+  【上期数据（{{previousPeriod}}）】
+  {{previousStats}}
+
+  【本期错题摘要】
+  {{mistakes}}
+
+  请返回纯JSON格式：
+  {
+    "overview": "本期整体情况：错题集中在哪些题型和考点、主要错因是什么。用数据说话。",
+    "comparison": "与上期对比：哪些指标变好、哪些变差，可能的原因。没有上期数据时说明这是第一期。",
+    "weakPoints": ["最需要突破的 2-4 个薄弱点，每条写明考点和具体问题"],
+    "plan": [
+      { "days": "第1-3天", "focus": "本阶段重点", "tasks": ["具体、可执行、可检查的任务，例如‘重做本期 5 道翻译推理错题并口述思路’"] }
+    ]
+  }
+  plan 覆盖接下来 14 天，分 4-6 个阶段，任务要针对上面的薄弱点，不要写‘多做题’之类的空话。
+`;
+
+const DEFAULT_WRITING_PROMPT = `
+  你是一名山东事业编统考《综合应用能力》阅卷老师。请按评分标准给学员的作答打分，并对照参考答案指出差距。
+
+  【题目信息】
+  题型：{{category}}
+  考点：{{subCategory}}
+  题目：{{questionText}}
+
+  【参考答案】
+  {{modelAnswer}}
+
+  【评分标准】
+  {{rubric}}
+
+  【学员作答】（{{wordCount}} 字，用时 {{timeSpent}}）
+  {{answer}}
+
+  阅卷要求：
+  1. 严格按评分标准逐项打分，分数为不超过该项满分的整数，不要因为态度好而给分。
+  2. 对照参考答案找出遗漏或答偏的要点、结构和格式问题、不规范的表述；能定位到原文的，excerpt 原样摘录学员作答中的句子，完全遗漏的要点 excerpt 留空。
+  3. 修改建议要具体，最好直接给出可替换的写法。
+
+  请返回纯JSON格式：
+  {
+    "scores": [
+      { "criterion": "评分项名称，与评分标准中的名称完全一致", "score": 0, "comment": "扣分原因或得分亮点" }
+    ],
+    "summary": "一两句话的总评，指出最主要的失分点",
+    "gaps": [
+      { "excerpt": "学员原文摘录或留空", "issue": "问题", "suggestion": "修改建议" }
+    ]
+  }
+`;
+
+const CLASSIFY_PROMPT_VARIABLES = ['knowledgePoints'];
+const ROOT_CAUSE_PROMPT_VARIABLES = ['subject', 'category', 'subCategory', 'myThinking', 'correctResolution', 'knowledgePoints', 'causeTags'];
+const TUTOR_PROMPT_VARIABLES = ['subject', 'category', 'subCategory', 'questionText', 'correctAnswer', 'myThinking', 'correctResolution', 'rootCause', 'suggestion', 'history', 'message'];
+const REPORT_PROMPT_VARIABLES = ['period', 'stats', 'previousPeriod', 'previousStats', 'mistakes'];
+const WRITING_PROMPT_VARIABLES = ['category', 'subCategory', 'questionText', 'modelAnswer', 'rubric', 'answer', 'wordCount', 'timeSpent'];
+const VARIANT_PROMPT_VARIABLES = ['count', 'subject', 'category', 'subCategory', 'questionText', 'correctAnswer', 'correctResolution', 'rootCause', 'suggestion', 'causeTags'];
+
+// Fills the {{placeholders}} of a prompt template; the names each template may use are listed in its
+// *_PROMPT_VARIABLES above, and unknown names are left as typed
+const renderTemplate = (template: string, vars: Record<string, string>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key) => key in vars ? vars[key] : match);
+
+const buildRootCausePrompt = (template: string, taxonomy: Taxonomy, { subject, category, subCategory, myThinking, correctResolution }: RootCauseInput) =>
+  renderTemplate(template, {
+    knowledgePoints: formatTaxonomyForPrompt(taxonomy, [category]),
+    causeTags: CAUSE_TAGS.join('、'),
+    subject,
+    category,
+    subCategory,
+    myThinking: myThinking || "（学员未提供详细思路，请基于该题型的常见误区进行推断，分析学员可能的思维路径）",
+    correctResolution: correctResolution || "（请结合图片内容自行推导正确逻辑）",
+  });
+
+const buildVariantPrompt = (template: string, count: number, input: VariantInput) =>
+  renderTemplate(template, {
+    count: String(count),
+    subject: input.subject,
+    category: input.category,
+    subCategory: input.subCategory || '（未标注）',
+    questionText: input.questionText || '（见图片）',
+    correctAnswer: input.correctAnswer || '（未记录）',
+    correctResolution: input.correctResolution || '（请结合图片自行推导）',
+    // Without a diagnosis the variants fall back to the usual traps of the knowledge point
+    rootCause: input.rootCause || '（暂无诊断，请针对该考点最常见的误区设置干扰项）',
+    suggestion: input.suggestion || '（无）',
+    causeTags: input.causeTags.join('、') || '（无）',
+  });
+
+const MAX_TUTOR_HISTORY = 12; // Earlier messages are left out of the prompt to keep it short
+
+const buildTutorPrompt = (template: string, input: TutorInput, history: ChatMessage[], message: string) =>
+  renderTemplate(template, {
+    subject: input.subject,
+    category: input.category,
+    subCategory: input.subCategory || '（未标注）',
+    questionText: input.questionText || '（见图片）',
+    correctAnswer: input.correctAnswer || '（未记录）',
+    myThinking: input.myThinking || '（未记录）',
+    correctResolution: input.correctResolution || '（未记录，请结合图片推导）',
+    rootCause: input.rootCause || '（暂无）',
+    suggestion: input.suggestion || '（无）',
+    history: history.slice(-MAX_TUTOR_HISTORY)
+      .map(m => `${m.role === 'user' ? '学员' : '老师'}：${m.text}`)
+      .join('\n') || '（无）',
+    message,
+  });
+
+const buildReportPrompt = (template: string, { periodKey, stats, previous, mistakes }: ReportInput) =>
+  renderTemplate(template, {
+    period: periodKey,
+    stats: formatPeriodStats(stats),
+    previousPeriod: previous?.periodKey || '无',
+    previousStats: previous ? formatPeriodStats(previous) : '（无上期数据）',
+    mistakes: mistakes || '（无）',
+  });
+
+const buildWritingPrompt = (template: string, rubric: RubricCriterion[], input: WritingInput) =>
+  renderTemplate(template, {
+    category: input.category,
+    subCategory: input.subCategory || '（未标注）',
+    questionText: input.questionText || '（见图片）',
+    modelAnswer: input.correctResolution || '（未记录，请结合图片中的解析或自行拟定参考要点）',
+    rubric: formatRubric(rubric),
+    answer: input.answer,
+    wordCount: String(countWords(input.answer)),
+    timeSpent: formatDuration(input.timeSpentMs),
+  });
+
+interface PromptTemplates {
+  classify: string;
+  rootCause: string;
+  variants: string;
+  tutor: string;
+  report: string;
+  writing: string;
+}
+
+const DEFAULT_PROMPTS: PromptTemplates = {
+  classify: DEFAULT_CLASSIFY_PROMPT,
+  rootCause: DEFAULT_ROOT_CAUSE_PROMPT,
+  variants: DEFAULT_VARIANT_PROMPT,
+  tutor: DEFAULT_TUTOR_PROMPT,
+  report: DEFAULT_REPORT_PROMPT,
+  writing: DEFAULT_WRITING_PROMPT,
+};
+
+const MIN_VARIANT_OPTIONS = 2;
+const MAX_VARIANT_OPTIONS = OPTION_LETTERS.length;
+
+// Items with missing fields or an answer outside their options are dropped; the rest are still useful
+const parseVariant = (raw: unknown): Omit<VariantQuestion, 'id' | 'createdAt'> | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const { stem, options, answer, explanation } = raw as Record<string, unknown>;
+  if (!isString(stem) || !stem.trim() || !isString(answer) || !Array.isArray(options)) return null;
+  if (options.length < MIN_VARIANT_OPTIONS || options.length > MAX_VARIANT_OPTIONS || !options.every(isString)) return null;
+  const letters = normalizeChoice(answer);
+  const validLetters = OPTION_LETTERS.slice(0, options.length);
+  if (!letters || ![...letters].every(l => validLetters.includes(l))) return null;
+  return {
+    stem: stem.trim(),
+    // Models sometimes keep the "A." prefix despite the instructions
+    options: options.map(o => o.replace(/^\s*[A-F][.．、:：\s]\s*/, '').trim()),
+    answer: letters,
+    explanation: isString(explanation) ? explanation.trim() : '',
+  };
+};
+
+// Appended after the (user-editable) template so custom prompts still learn what each image is
+const describeImageRoles = (images: ImageInput[]) =>
+  images.length > 0
+    ? `\n\n【图片说明】共 ${images.length} 张图片，依次为：${images.map((img, i) => `第${i + 1}张「${img.role}」`).join('、')}。`
+      + (images.some(img => img.role === '解析') ? '「解析」图片是官方答案解析，请以其为准提取正确答案与解题思路。' : '')
+    : '';
+
+const toImagePart = (dataUrl: string): ImagePart => ({ mimeType: getDataUrlMimeType(dataUrl), data: dataUrl.split(',')[1] });
+
+// Non-object entries in a model-returned array are skipped
+const asRecords = (value: unknown) =>
+  (Array.isArray(value) ? value : []).filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+
+const createAnalysisService = (
+  provider: AnalysisProvider,
+  prompts: PromptTemplates = DEFAULT_PROMPTS,
+  taxonomy: Taxonomy = SEED_TAXONOMY,
+  rubric: RubricCriterion[] = DEFAULT_WRITING_RUBRIC,
+) => {
+  const run = async (request: GenerateRequest) => {
+    const text = await withRetry(() => provider.generate(request));
+    return { text, data: extractJson(text) };
+  };
+
+  return {
+    provider: provider.name,
+
+    // Text only: the stats and mistake summaries already carry what the report needs
+    generatePeriodReport: async (input: ReportInput): Promise<ReportResult> => {
+      const { text, data } = await run({ task: 'report', prompt: buildReportPrompt(prompts.report, input), images: [] });
+      const fields = validateShape(data, {
+        overview: { type: 'string', required: true },
+        comparison: { type: 'string' },
+      }, text);
+      const { weakPoints, plan } = data as { weakPoints?: unknown, plan?: unknown };
+      return {
+        ...fields,
+        weakPoints: Array.isArray(weakPoints) ? weakPoints.filter(isString) : [],
+        plan: asRecords(plan)
+          .map(step => ({
+            days: isString(step.days) ? step.days : '',
+            focus: isString(step.focus) ? step.focus : '',
+            tasks: Array.isArray(step.tasks) ? step.tasks.filter(isString) : [],
+          }))
+          .filter(step => step.focus || step.tasks.length > 0),
+      };
+    },
+
+    scoreWriting: async (input: WritingInput): Promise<WritingResult> => {
+      const { text, data } = await run({
+        task: 'writing',
+        prompt: buildWritingPrompt(prompts.writing, rubric, input) + describeImageRoles(input.images),
+        images: input.images.map(img => toImagePart(img.dataUrl)),
+      });
+      const { summary } = validateShape(data, { summary: { type: 'string' } }, text);
+      const { scores, gaps } = data as { scores?: unknown, gaps?: unknown };
+      const byCriterion = new Map(asRecords(scores).map(s => [isString(s.criterion) ? s.criterion.trim() : '', s]));
+      if (!rubric.some(c => byCriterion.has(c.name))) {
+        throw new AnalysisError('malformed', 'No rubric criterion scored in model output', text);
+      }
+      return {
+        summary,
+        // A criterion the model skipped scores 0, so totals stay on the rubric's scale
+        scores: rubric.map(c => {
+          const raw = byCriterion.get(c.name);
+          const score = Number(raw?.score);
+          return {
+            criterion: c.name,
+            score: Number.isFinite(score) ? Math.min(c.maxScore, Math.max(0, Math.round(score))) : 0,
+            maxScore: c.maxScore,
+            comment: raw ? (isString(raw.comment) ? raw.comment.trim() : '') : '（AI 未给出该项评分）',
+          };
+        }),
+        gaps: asRecords(gaps)
+          .map(g => ({
+            excerpt: isString(g.excerpt) ? g.excerpt.trim() : '',
+            issue: isString(g.issue) ? g.issue.trim() : '',
+            suggestion: isString(g.suggestion) ? g.suggestion.trim() : '',
+          }))
+          .filter(g => g.issue || g.suggestion),
+      };
+    },
+
+    // Free-text reply, so this skips the JSON extraction in run()
+    tutor: async (input: TutorInput, history: ChatMessage[], message: string): Promise<string> => {
+      const text = await withRetry(() => provider.generate({
+        task: 'tutor',
+        prompt: buildTutorPrompt(prompts.tutor, input, history, message) + describeImageRoles(input.images),
+        images: input.images.map(img => toImagePart(img.dataUrl)),
+      }));
+      const reply = text.trim();
+      if (!reply) throw new AnalysisError('malformed', 'Empty tutor reply', text);
+      return reply;
+    },
+
+    generateVariants: async (input: VariantInput, count: number): Promise<VariantQuestion[]> => {
+      const { text, data } = await run({
+        task: 'variants',
+        prompt: buildVariantPrompt(prompts.variants, count, input) + describeImageRoles(input.images),
+        images: input.images.map(img => toImagePart(img.dataUrl)),
+      });
+      const items = (data as { variants?: unknown }).variants;
+      const variants = (Array.isArray(items) ? items : []).map(parseVariant).filter(v => v !== null);
+      if (variants.length === 0) throw new AnalysisError('malformed', 'No usable variants in model output', text);
+      const now = Date.now();
+      return variants.map(v => ({ ...v, id: createImageId(), createdAt: now }));
+    },
+
+    classify: async (images: ImageInput[]): Promise<ClassifyResult> => {
+      const { text, data } = await run({
+        task: 'classify',
+        prompt: renderTemplate(prompts.classify, { knowledgePoints: formatTaxonomyForPrompt(taxonomy, ALL_CATEGORIES) })
+          + describeImageRoles(images),
+        images: images.map(img => toImagePart(img.dataUrl)) });
+      const fields = validateShape(data, {
+        subject: { type: 'string' },
+        category: { type: 'enum', values: ALL_CATEGORIES },
+        subCategory: { type: 'string' },
+        questionText: { type: 'string' },
+        analysis: { type: 'string' },
+        solution: { type: 'string' },
+        correctAnswer: { type: 'string' },
+      }, text);
+      const category = (fields.category || null) as QuestionCategory | null;
+      return {
+        ...fields,
+        subject: fields.subject === '综应' ? '综应' : '职测',
+        category,
+        // Snap near-miss labels onto the knowledge-point tree
+        subCategory: resolveKnowledgePoint(taxonomy, category || '其他', fields.subCategory).path,
+        // Accept "B" / "A、C" / "12.5%" but drop prose the model may add
+        correctAnswer: isNumericAnswer(fields.correctAnswer) ? fields.correctAnswer.trim() : normalizeChoice(fields.correctAnswer),
+      };
+    },
+
+    diagnoseRootCause: async (input: RootCauseInput): Promise<RootCauseResult> => {
+      const { text, data } = await run({
+        task: 'root_cause',
+        prompt: buildRootCausePrompt(prompts.rootCause, taxonomy, input) + describeImageRoles(input.images),
+        images: input.images.map(img => toImagePart(img.dataUrl)),
+      });
+      const result = validateShape(data, {
+        analysis: { type: 'string', required: true },
+        suggestion: { type: 'string' },
+        refinedSubCategory: { type: 'string' },
+      }, text);
+      // Tags outside the vocabulary are dropped rather than failing the whole diagnosis
+      const rawTags = (data as { causeTags?: unknown }).causeTags;
+      const causeTags = Array.isArray(rawTags) ? [...new Set(rawTags.filter(isCauseTag))] : [];
+      return {
+        ...result,
+        refinedSubCategory: resolveKnowledgePoint(taxonomy, input.category, result.refinedSubCategory).path,
+        causeTags,
+      };
+    },
+  };
+};
+
+type AnalysisService = ReturnType<typeof createAnalysisService>;
+
+// --- Settings ---
+
+const SETTINGS_KEY = 'sd_exam_settings_v1';
+
+// Empty strings (and an empty rubric) mean "use the built-in default", so defaults can improve with new releases
+interface AppSettings {
+  apiKey: string;
+  model: string;
+  classifyPrompt: string;
+  rootCausePrompt: string;
+  variantPrompt: string;
+  tutorPrompt: string;
+  reportPrompt: string;
+  writingPrompt: string;
+  writingRubric: RubricCriterion[];
+}
+
+const EMPTY_SETTINGS: AppSettings = {
+  apiKey: '', model: '', classifyPrompt: '', rootCausePrompt: '', variantPrompt: '', tutorPrompt: '', reportPrompt: '',
+  writingPrompt: '', writingRubric: [],
+};
+
+const MODEL_OPTIONS = ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+const loadSettings = (): AppSettings => {
+  try {
+    const data = localStorage.getItem(SETTINGS_KEY);
+    return data ? { ...EMPTY_SETTINGS, ...JSON.parse(data) } : EMPTY_SETTINGS;
+  } catch {
+    return EMPTY_SETTINGS;
+  }
+};
+
+const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const createProvider = (settings: AppSettings): AnalysisProvider =>
+  process.env.ANALYSIS_PROVIDER === 'mock'
+    ? createMockProvider()
+    // A key entered in settings wins over the one baked in at build time
+    : createGeminiProvider(settings.apiKey || process.env.API_KEY, settings.model || DEFAULT_MODEL);
+
+// Half-edited rows (no name, no points) are ignored rather than sent to the model
+const getWritingRubric = (settings: AppSettings) => {
+  const rubric = settings.writingRubric.filter(c => c.name.trim() && c.maxScore > 0);
+  return rubric.length > 0 ? rubric : DEFAULT_WRITING_RUBRIC;
+};
+
+// ANALYSIS_PROVIDER=mock runs the app fully offline
+const getAnalysisService = (settings: AppSettings = loadSettings()): AnalysisService =>
+  createAnalysisService(createProvider(settings), {
+    classify: settings.classifyPrompt || DEFAULT_PROMPTS.classify,
+    rootCause: settings.rootCausePrompt || DEFAULT_PROMPTS.rootCause,
+    variants: settings.variantPrompt || DEFAULT_PROMPTS.variants,
+    tutor: settings.tutorPrompt || DEFAULT_PROMPTS.tutor,
+    report: settings.reportPrompt || DEFAULT_PROMPTS.report,
+    writing: settings.writingPrompt || DEFAULT_PROMPTS.writing,
+  }, loadTaxonomy(), getWritingRubric(settings));
+
+// Sends a tiny request to check the key and model actually work
+const testConnection = async (settings: AppSettings) => {
+  await createProvider(settings).generate({ task: 'ping', prompt: '请只回复 OK', images: [] });
+};
+
+// --- Helpers ---
+
+const getPeriodKey = (ts: number) => {
+  const d = new Date(ts);
+  const year = d.getFullYear();
+  const month = d.getMonth() + 1;
+  const day = d.getDate();
+  const part = day <= 15 ? '上半月' : '下半月';
+  return `${year}年${month}月${part}`;
+};
+
+// Inverse of getPeriodKey: [start, end) of the half month, in local time
+const getPeriodBounds = (periodKey: string) => {
+  const parts = periodKey.match(/(\d+)年(\d+)月(上半月|下半月)/);
+  if (!parts) return null;
+  const year = parseInt(parts[1]);
+  const month = parseInt(parts[2]) - 1;
+  return parts[3] === '上半月'
+    ? { start: new Date(year, month, 1).getTime(), end: new Date(year, month, 16).getTime() }
+    : { start: new Date(year, month, 16).getTime(), end: new Date(year, month + 1, 1).getTime() };
+};
+
+// Fisher–Yates; unlike sort(() => 0.5 - Math.random()) every order is equally likely
+const shuffle = <T,>(items: T[], random: () => number = Math.random) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Largest share first
+const countByCategory = (questions: Question[]) =>
+  Array.from(
+    questions.reduce((counts, q) => counts.set(q.category, (counts.get(q.category) || 0) + 1), new Map<QuestionCategory, number>())
+  ).sort((a, b) => b[1] - a[1]);
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const m = Math.floor(total / 60);
+  const sec = total % 60;
+  return `${m.toString().padStart(2, '0')}:${sec.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (ts: number) => {
+  return new Date(ts).toLocaleDateString('zh-CN', { month: 'numeric', day: 'numeric' });
+};
+
+// --- Rich Text (Markdown + LaTeX) ---
+
+const renderMath = (tex: string, displayMode: boolean) =>
+  katex.renderToString(tex.trim(), { displayMode, throwOnError: false, output: 'html' });
+
+// $$...$$ or \[...\] as a block of its own
+const blockMathExtension: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(/^(\$\$|\\\[)/m)?.index,
+  tokenizer(src) {
+    const match = /^(?:\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\])[ \t]*(?:\n|$)/.exec(src);
+    if (match) return { type: 'blockMath', raw: match[0], text: match[1] ?? match[2] };
+  },
+  renderer: token => renderMath(token.text, true),
+};
+
+// $...$, \(...\) and $$...$$ inside a paragraph; a lone "$" stays text
+const inlineMathExtension: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => {
+    const index = src.search(/\$|\\\(/);
+    return index < 0 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^(?:\$\$([^$]+?)\$\$|\$(?!\s)([^$\n]+?)(?<!\s)\$|\\\((.+?)\\\))/.exec(src);
+    if (match) return { type: 'inlineMath', raw: match[0], text: match[1] ?? match[2] ?? match[3], display: match[1] !== undefined };
+  },
+  renderer: token => renderMath(token.text, token.display),
+};
+
+// ==key phrase== is rendered as <mark>
+const highlightExtension: TokenizerAndRendererExtension = {
+  name: 'highlight',
+  level: 'inline',
+  start: src => {
+    const index = src.indexOf('==');
+    return index < 0 ? undefined : index;
+  },
+  tokenizer(src) {
+    const match = /^==(?=\S)([^\n]*?\S)==/.exec(src);
+    if (match) return { type: 'highlight', raw: match[0], tokens: this.lexer.inlineTokens(match[1]) };
+  },
+  renderer(token) {
+    return `<mark>${this.parser.parseInline(token.tokens || [])}</mark>`;
+  },
+};
+
+// breaks: true keeps single newlines, so older plain-text analyses look the same as before
+const richTextParser = new Marked({ gfm: true, breaks: true, extensions: [blockMathExtension, inlineMathExtension, highlightExtension] });
+
+// Model output may contain raw HTML, so everything goes through DOMPurify before it reaches the DOM
+const renderRichText = (text: string) => DOMPurify.sanitize(richTextParser.parse(text, { async: false }));
+
+// Plain text needs no preview next to its editor
+const hasRichSyntax = (text: string) => /\$|\\\(|\\\[|==|\*\*|^\s*(#|[-*+]\s|\d+\.\s|\|)/m.test(text);
+
+// --- Components ---
+
+// 1. Tab Navigation
+const TabNav = ({ activeTab, setActiveTab }: { activeTab: string, setActiveTab: (t: string) => void }) => (
+  <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 flex justify-around py-3 z-50 safe-area-pb print:hidden">
+    <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center ${activeTab === 'dashboard' ? 'text-blue-600' : 'text-gray-400'}`}>
+      <PieChart size={24} />
+      <span className="text-xs mt-1">概览</span>
+    </button>
+    <button onClick={() => setActiveTab('add')} className={`flex flex-col items-center ${activeTab === 'add' ? 'text-blue-600' : 'text-gray-400'}`}>
+      <div className="bg-blue-600 text-white p-3 rounded-full -mt-6 shadow-lg">
+        <Plus size={24} />
+      </div>
+      <span className="text-xs mt-1">录入</span>
+    </button>
+    <button onClick={() => setActiveTab('review')} className={`flex flex-col items-center ${activeTab === 'review' ? 'text-blue-600' : 'text-gray-400'}`}>
+      <BookOpen size={24} />
+      <span className="text-xs mt-1">复盘</span>
+    </button>
+    <button onClick={() => setActiveTab('settings')} className={`flex flex-col items-center ${activeTab === 'settings' ? 'text-blue-600' : 'text-gray-400'}`}>
+      <Settings size={24} />
+      <span className="text-xs mt-1">设置</span>
+    </button>
+  </div>
+);
+
+// 2. Dashboard View
+const WeeklyBars = ({ points, value, color, title }: {
+  points: WeeklyPoint[],
+  value: (p: WeeklyPoint) => number,
+  color: string,
+  title: string,
+}) => {
+  const max = Math.max(1, ...points.map(value));
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-2">{title}</p>
+      <div className="flex items-end gap-1 h-20">
+        {points.map(p => (
+          <div key={p.weekStart} className="flex-1 h-full flex flex-col justify-end" title={`${formatDate(p.weekStart)} 起：${value(p)}`}>
+            <div className={`${color} rounded-t`} style={{ height: `${(value(p) / max) * 100}%`, minHeight: value(p) ? 2 : 0 }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{formatDate(points[0].weekStart)}</span>
+        <span>本周</span>
+      </div>
+    </div>
+  );
+};
+
+const ActivityHeatmap = ({ questions }: { questions: Question[] }) => {
+  const counts = computeActivityByDay(questions);
+  const firstDay = startOfWeek(Date.now()) - (HEATMAP_WEEKS - 1) * WEEK_MS;
+  const today = startOfDay(Date.now());
+  const max = Math.max(1, ...counts.values());
+  const shade = (n: number) => {
+    if (n === 0) return 'bg-gray-100';
+    const level = n / max;
+    return level > 0.75 ? 'bg-green-600' : level > 0.5 ? 'bg-green-500' : level > 0.25 ? 'bg-green-400' : 'bg-green-200';
+  };
+
+  return (
+    <div className="flex gap-1">
+      {Array.from({ length: HEATMAP_WEEKS }, (_, w) => (
+        <div key={w} className="flex-1 flex flex-col gap-1">
+          {Array.from({ length: 7 }, (_, d) => {
+            const date = new Date(firstDay);
+            date.setDate(date.getDate() + w * 7 + d);
+            const day = date.getTime();
+            const n = counts.get(day) || 0;
+            return (
+              <div
+                key={d}
+                title={`${formatDate(day)}：${n} 题`}
+                className={`aspect-square rounded-sm ${day > today ? 'bg-transparent' : shade(n)}`}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const BackupPanel = ({ questions, onImport }: { questions: Question[], onImport: (items: { question: Question; images: Map<string, Blob> }[]) => void }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+  const [withSettings, setWithSettings] = useState(false);
+
+  const existingIds = new Set(questions.map(q => q.id));
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const blob = await exportBackup();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `错题备份-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setError('导出失败，请稍后重试。');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      setPreview(await readBackup(file));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : '备份文件读取失败');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+    onImport(resolveImport(preview, existingIds, strategy));
+    setPreview(null);
+    try {
+      await importBackupExtras(preview.extras, strategy, withSettings);
+    } catch (err) {
+      console.error(err);
+      setError('练习记录与复盘报告导入失败，请重试。');
+    }
+  };
+
+  const conflicts = preview ? preview.candidates.filter(c => existingIds.has(c.question.id)).length : 0;
+  const repaired = preview ? preview.candidates.filter(c => c.repairs.length > 0) : [];
+  const hasExtras = !!preview && (!!preview.extras.taxonomy || preview.extras.sessions.length > 0 || preview.extras.reports.length > 0);
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">数据备份</h2>
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={handleExport}
+          disabled={isBusy || questions.length === 0}
+          className="bg-white border border-gray-200 rounded-xl py-3 text-sm font-medium text-gray-700 flex items-center justify-center gap-2 disabled:opacity-40"
+        >
+          <Download size={16} /> 导出备份
+        </button>
+        <label className={`bg-white border border-gray-200 rounded-xl py-3 text-sm font-medium text-gray-700 flex items-center justify-center gap-2 cursor-pointer ${isBusy ? 'opacity-40 pointer-events-none' : ''}`}>
+          <Upload size={16} /> 导入备份
+          <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+      {error && <p className="text-red-500 text-xs mt-2">{error}</p>}
+
+      {preview && (
+        <div className="mt-4 bg-white border border-gray-200 rounded-xl p-4 space-y-3 text-sm">
+          <h3 className="font-bold text-gray-800">导入预览</h3>
+          <ul className="text-gray-600 space-y-1">
+            <li>新增题目：{preview.candidates.length - conflicts} 道</li>
+            <li>ID 冲突：{conflicts} 道</li>
+            <li>已自动修复：{repaired.length} 道</li>
+            <li className={preview.rejected.length ? 'text-red-500' : ''}>无法导入：{preview.rejected.length} 道</li>
+            {preview.extras.taxonomy && <li>知识点体系：与现有体系合并</li>}
+            {(preview.extras.sessions.length > 0 || preview.extras.reports.length > 0 || preview.invalidExtras > 0) && (
+              <li>练习记录 {preview.extras.sessions.length} 次，复盘报告 {preview.extras.reports.length} 份
+                {preview.invalidExtras > 0 && <span className="text-red-500">（{preview.invalidExtras} 条无效，已跳过）</span>}
+              </li>
+            )}
+          </ul>
+
+          {preview.extras.settings && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input type="checkbox" checked={withSettings} onChange={e => setWithSettings(e.target.checked)} />
+              同时恢复设置（模型、提示词与评分细则，不含 API Key）
+            </label>
+          )}
+
+          {conflicts > 0 && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">冲突处理</label>
+              <select
+                value={strategy}
+                onChange={e => setStrategy(e.target.value as ConflictStrategy)}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+              >
+                <option value="skip">跳过（保留现有题目）</option>
+                <option value="overwrite">覆盖（使用备份中的版本）</option>
+                <option value="keep_both">两者都保留</option>
+              </select>
+            </div>
+          )}
+
+          {(repaired.length > 0 || preview.rejected.length > 0) && (
+            <details className="text-xs text-gray-500">
+              <summary className="cursor-pointer">查看详情</summary>
+              <ul className="mt-2 space-y-1">
+                {repaired.map(c => (
+                  <li key={c.question.id}>修复 {c.question.id}：{c.repairs.join('；')}</li>
+                ))}
+                {preview.rejected.map(r => (
+                  <li key={r.id} className="text-red-500">跳过 {r.id}：{r.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button onClick={() => setPreview(null)} className="flex-1 py-2 rounded-lg border border-gray-200 text-gray-600">取消</button>
+            <button
+              onClick={handleConfirm}
+              disabled={preview.candidates.length === 0 && !hasExtras}
+              className="flex-1 py-2 rounded-lg bg-blue-600 text-white font-medium disabled:opacity-40"
+            >
+              确认导入
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Dashboard = ({ questions, onImport }: { questions: Question[], onImport: (items: { question: Question; images: Map<string, Blob> }[]) => void }) => {
+  const total = questions.length;
+  const priorityCount = questions.filter(q => q.masteryStatus === 'review_needed').length;
+  const dueCount = getDueQuestions(questions).length;
+  
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  
+  // Calculate category stats
+  const catStats: Record<string, number> = {};
+  questions.forEach(q => {
+    catStats[q.category] = (catStats[q.category] || 0) + 1;
+  });
+
+  const trend = useMemo(() => computeWeeklyTrend(questions), [questions]);
+  const knowledgePoints = useMemo(() => computeKnowledgePointStats(questions), [questions]);
+  const weakest = [...knowledgePoints].sort((a, b) => b.weakness - a.weakness).slice(0, 5);
+  const conversion = computeConversionRate(questions);
+
+  return (
+    <div className="p-6 pb-24 h-full overflow-y-auto">
+      <header className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-800">错题复盘助手</h1>
+        <p className="text-gray-500 text-sm">山东事业编统考专属</p>
+      </header>
+
+      <div className="grid grid-cols-2 gap-4 mb-8">
+        <div className="bg-blue-50 p-4 rounded-2xl border border-blue-100">
+          <p className="text-blue-600 text-sm font-medium">累计错题</p>
+          <p className="text-3xl font-bold text-gray-800 mt-2">{total}</p>
+        </div>
+        <div className="bg-red-50 p-4 rounded-2xl border border-red-100 relative overflow-hidden">
+          <div className="absolute top-2 right-2 opacity-10 text-red-500">
+            <AlertCircle size={48} />
+          </div>
+          <p className="text-red-600 text-sm font-medium">重点复习</p>
+          <p className="text-3xl font-bold text-gray-800 mt-2">{priorityCount}</p>
+        </div>
+        <div className="col-span-2 bg-amber-50 p-4 rounded-2xl border border-amber-100 flex items-center justify-between">
+          <div>
+            <p className="text-amber-700 text-sm font-medium">今日待复习</p>
+            <p className="text-xs text-amber-500 mt-1">按记忆曲线自动安排</p>
+          </div>
+          <p className="text-3xl font-bold text-gray-800">{dueCount}</p>
+        </div>
+      </div>
+
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">题型分布</h2>
+      <div className="space-y-3">
+        {Object.entries(catStats).map(([cat, count]) => (
+          <div key={cat}>
+            <button
+              onClick={() => setExpandedCategory(expandedCategory === cat ? null : cat)}
+              className="w-full flex items-center text-left"
+            >
+              <div className="w-32 text-sm text-gray-600 truncate">{cat}</div>
+              <div className="flex-1 h-2 bg-gray-100 rounded-full mx-3 overflow-hidden">
+                <div 
+                  className="h-full bg-blue-500 rounded-full" 
+                  style={{ width: `${(count / total) * 100}%` }}
+                />
+              </div>
+              <div className="text-sm font-medium text-gray-700">{count}题</div>
+              <ChevronRight size={14} className={`text-gray-300 ml-1 transition-transform ${expandedCategory === cat ? 'rotate-90' : ''}`} />
+            </button>
+            {expandedCategory === cat && (
+              <div className="mt-2 ml-4 pl-3 border-l-2 border-blue-100 space-y-2">
+                {knowledgePoints
+                  .filter(k => k.category === cat)
+                  .sort((a, b) => b.count - a.count)
+                  .map(k => (
+                    <div key={k.subCategory} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-600 truncate flex-1">{k.subCategory}</span>
+                      <span className="text-gray-400 w-12 text-right">{k.count}题</span>
+                      <span className={`w-20 text-right ${k.attempts && k.wrongAttempts / k.attempts > 0.5 ? 'text-red-500' : 'text-gray-400'}`}>
+                        {k.attempts ? `错误率 ${Math.round((k.wrongAttempts / k.attempts) * 100)}%` : '未重做'}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {total === 0 && <p className="text-gray-400 text-sm italic">暂无错题数据，请点击下方 + 号录入。</p>}
+      </div>
+
+      {total > 0 && (
+        <>
+          <h2 className="text-lg font-semibold text-gray-800 mt-8 mb-4">学习趋势</h2>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100 space-y-5">
+            <WeeklyBars points={trend} value={p => p.added} color="bg-blue-400" title="每周新增错题" />
+            <WeeklyBars points={trend} value={p => p.reviewed} color="bg-green-400" title="每周复盘次数" />
+            <WeeklyBars points={trend} value={p => p.conquered} color="bg-indigo-400" title="每周攻克（需加强 → 已掌握）" />
+            <p className="text-xs text-gray-500">
+              累计转化率：{conversion.flagged ? Math.round((conversion.conquered / conversion.flagged) * 100) : 0}%
+              （{conversion.conquered}/{conversion.flagged} 道需加强题已掌握）
+            </p>
+          </div>
+
+          <h2 className="text-lg font-semibold text-gray-800 mt-8 mb-4">复习日历</h2>
+          <div className="bg-white p-4 rounded-2xl border border-gray-100">
+            <ActivityHeatmap questions={questions} />
+            <p className="text-[10px] text-gray-400 mt-2">近 {HEATMAP_WEEKS} 周，每格为一天练习的题目数</p>
+          </div>
+
+          <h2 className="text-lg font-semibold text-gray-800 mt-8 mb-4">薄弱考点 Top {weakest.length}</h2>
+          <div className="bg-white rounded-2xl border border-gray-100 divide-y divide-gray-50">
+            {weakest.map((k, i) => (
+              <div key={`${k.category}|${k.subCategory}`} className="p-3 flex items-center gap-3">
+                <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${i < 3 ? 'bg-red-100 text-red-600' : 'bg-gray-100 text-gray-500'}`}>{i + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">{k.subCategory}</p>
+                  <p className="text-xs text-gray-400">
+                    {k.category} · {k.count}题 · 需加强 {k.reviewNeeded}
+                    {k.attempts > 0 && ` · 重做错 ${k.wrongAttempts}/${k.attempts}`}
+                  </p>
+                </div>
+                <div className="w-16 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-red-400" style={{ width: `${k.weakness * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <BackupPanel questions={questions} onImport={onImport} />
+    </div>
+  );
+};
+
+// 3. Add Question View (AI Powered)
+interface ClassificationFieldsProps {
+  subject: Question['subject'];
+  category: QuestionCategory;
+  subCategory: string;
+  onSubjectChange: (s: Question['subject']) => void;
+  onCategoryChange: (c: QuestionCategory) => void;
+  onSubCategoryChange: (s: string) => void;
+}
+
+// Shared by the add flow and the detail page
+const ClassificationFields = ({ subject, category, subCategory, onSubjectChange, onCategoryChange, onSubCategoryChange }: ClassificationFieldsProps) => (
+  <>
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">科目</label>
+        <select 
+          value={subject} 
+          onChange={e => {
+            onSubjectChange(e.target.value as any);
+            onCategoryChange(CATEGORIES[e.target.value as any][0]);
+          }}
+          className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+        >
+          <option value="职测">职测</option>
+          <option value="综应">综应</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">大类</label>
+        <select 
+          value={category}
+          onChange={e => onCategoryChange(e.target.value as any)}
+          className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+        >
+          {CATEGORIES[subject].map(c => (
+            <option key={c} value={c}>{c}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+    <div>
+      <label className="block text-xs text-gray-500 mb-1">考点 (AI识别)</label>
+      <KnowledgePointPicker category={category} value={subCategory} onChange={onSubCategoryChange} />
+    </div>
+  </>
+);
+
+const NEW_KP_OPTION = '__new__';
+
+// Picks a node of the knowledge-point tree; labels outside the tree can be added to it
+const KnowledgePointPicker = ({ category, value, onChange }: { category: QuestionCategory, value: string, onChange: (path: string) => void }) => {
+  const taxonomy = useTaxonomy();
+  const nodes = flattenTaxonomy(taxonomy[category] || []);
+  const known = isKnownKnowledgePoint(taxonomy, category, value);
+
+  const handleSelect = (selected: string) => {
+    if (selected !== NEW_KP_OPTION) {
+      onChange(selected);
+      return;
+    }
+    const input = prompt("输入新考点，用“-”分隔层级，例如：逻辑填空-成语辨析", value);
+    const path = input ? cleanPath(input) : '';
+    if (!path) return;
+    saveTaxonomy(addTaxonomyPath(taxonomy, category, path));
+    onChange(path);
+  };
+
+  return (
+    <div className="space-y-1">
+      <select
+        value={value}
+        onChange={e => handleSelect(e.target.value)}
+        className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+      >
+        <option value="">未选择</option>
+        {nodes.map(n => (
+          <option key={n.path} value={n.path}>{'　'.repeat(n.depth)}{n.name}</option>
+        ))}
+        {!known && <option value={value}>{value}（未收录）</option>}
+        <option value={NEW_KP_OPTION}>+ 新建考点...</option>
+      </select>
+      {!known && (
+        <button
+          onClick={() => saveTaxonomy(addTaxonomyPath(taxonomy, category, value))}
+          className="text-xs text-blue-600"
+        >
+          「{value}」不在知识树中，点击加入
+        </button>
+      )}
+    </div>
+  );
+};
+
+const CorrectAnswerInput = ({ category, value, onChange }: { category: QuestionCategory, value: string, onChange: (v: string) => void }) => (
+  <div>
+    <label className="block text-xs text-gray-500 mb-1">
+      正确答案 {NUMERIC_CATEGORIES.includes(category) ? '(选项字母或数值)' : '(选项字母，多选如 AC)'}
+    </label>
+    <input
+      type="text"
+      value={value}
+      onChange={e => onChange(e.target.value.toUpperCase())}
+      placeholder={NUMERIC_CATEGORIES.includes(category) ? '例如：B 或 12.5' : '例如：B'}
+      className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+    />
+  </div>
+);
+
+// Option buttons or a number field, depending on the question's answer kind
+const AnswerInput = ({ question, value, onChange }: { question: Question, value: string, onChange: (v: string) => void }) => {
+  const kind = getAnswerKind(question);
+  const expected = normalizeChoice(question.correctAnswer || '');
+  const multiple = expected.length > 1;
+  const letters = OPTION_LETTERS.slice(0, Math.max(DEFAULT_OPTION_COUNT, ...[...expected].map(l => OPTION_LETTERS.indexOf(l) + 1)));
+
+  const toggle = (letter: string) => {
+    if (!multiple) {
+      onChange(value === letter ? '' : letter);
+      return;
+    }
+    onChange(normalizeChoice(value.includes(letter) ? value.replace(letter, '') : value + letter));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">{kind === 'numeric' ? '输入你的计算结果' : multiple ? '多选题：选择所有正确选项' : '选择你的答案'}</p>
+      {kind === 'numeric' ? (
+        <input
+          type="text"
+          inputMode="decimal"
+          value={value}
+          onChange={e => onChange(e.target.value)}
+          placeholder="例如：12.5 或 12.5%"
+          className="w-full bg-gray-50 border border-gray-200 rounded-lg p-3 text-center text-lg"
+        />
+      ) : (
+        <div className={`grid gap-2 ${letters.length > DEFAULT_OPTION_COUNT ? 'grid-cols-6' : 'grid-cols-4'}`}>
+          {letters.map(letter => (
+            <button
+              key={letter}
+              onClick={() => toggle(letter)}
+              className={`py-3 rounded-xl font-bold border transition-colors ${
+                value.includes(letter) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-700'
+              }`}
+            >
+              {letter}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Lets the user answer, then hands the answer back for grading
+const AnswerPanel = ({ question, onSubmit }: { question: Question, onSubmit: (answer: string) => void }) => {
+  const [answer, setAnswer] = useState('');
+
+  return (
+    <div className="space-y-3">
+      <AnswerInput question={question} value={answer} onChange={setAnswer} />
+      <button
+        onClick={() => onSubmit(answer.trim())}
+        disabled={!answer.trim()}
+        className="w-full py-3 rounded-xl bg-blue-600 text-white font-bold disabled:opacity-40 active:scale-95 transition-transform"
+      >
+        提交答案
+      </button>
+    </div>
+  );
+};
+
+const AttemptResult = ({ attempt, question }: { attempt: AnswerAttempt, question: Question }) => {
+  const history = question.attempts || [];
+  const correctCount = history.filter(a => a.correct).length;
+  return (
+    <div className={`p-4 rounded-xl border flex items-start gap-3 ${attempt.correct ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+      {attempt.correct ? <CheckCircle size={20} className="text-green-600 mt-0.5" /> : <XCircle size={20} className="text-red-500 mt-0.5" />}
+      <div className="text-sm">
+        <p className={`font-bold ${attempt.correct ? 'text-green-700' : 'text-red-600'}`}>{attempt.correct ? '回答正确' : '回答错误'}</p>
+        <p className="text-gray-600 mt-1">
+          你的答案 {attempt.answer} · 正确答案 {question.correctAnswer} · 用时 {formatDuration(attempt.timeSpentMs)}
+        </p>
+        <p className="text-xs text-gray-400 mt-1">历史作答 {history.length} 次，答对 {correctCount} 次</p>
+      </div>
+    </div>
+  );
+};
+
+// Toggles tags from the fixed CAUSE_TAGS vocabulary
+const CauseTagPicker = ({ value, onChange }: { value: CauseTag[], onChange: (tags: CauseTag[]) => void }) => (
+  <div className="flex flex-wrap gap-2">
+    {CAUSE_TAGS.map(tag => {
+      const active = value.includes(tag);
+      return (
+        <button
+          key={tag}
+          onClick={() => onChange(active ? value.filter(t => t !== tag) : CAUSE_TAGS.filter(t => t === tag || value.includes(t)))}
+          className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+            active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-200 text-gray-500'
+          }`}
+        >
+          {tag}
+        </button>
+      );
+    })}
+  </div>
+);
+
+type PromotableField = 'correctResolution' | 'rootCause';
+
+const PROMOTE_LABELS: Record<PromotableField, string> = {
+  correctResolution: '写入解析',
+  rootCause: '写入错因',
+};
+
+const appendText = (existing: string | undefined, text: string) => existing ? `${existing}\n\n${text}` : text;
+
+// Follow-up questions about one question; the transcript goes back through onChange so it is stored with the question
+const TutorChat = ({ question, onChange, onPromote }: {
+  question: Question,
+  onChange: (chat: ChatMessage[]) => void,
+  onPromote: (field: PromotableField, text: string) => void,
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(question.chat || []);
+  const [input, setInput] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [promoted, setPromoted] = useState<string | null>(null); // `${at}:${field}` of the last promotion
+
+  // The last message of the conversation is the user's question to answer
+  const requestReply = async (conversation: ChatMessage[]) => {
+    setIsSending(true);
+    setError(null);
+    try {
+      const reply = await getAnalysisService().tutor({
+        ...question,
+        correctAnswer: question.correctAnswer || '',
+        rootCause: question.rootCause || '',
+        suggestion: question.suggestion || '',
+        images: await toImageInputs(question.images),
+      }, conversation.slice(0, -1), conversation[conversation.length - 1].text);
+      const next = [...conversation, { role: 'tutor' as const, text: reply, at: Date.now() }];
+      setMessages(next);
+      onChange(next);
+    } catch (e) {
+      console.error(e);
+      setError(`追问失败：${describeAnalysisError(e)}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSend = () => {
+    const text = input.trim();
+    if (!text) return;
+    const next = [...messages, { role: 'user' as const, text, at: Date.now() }];
+    setMessages(next);
+    setInput('');
+    // Saved before the reply so the question survives a reload
+    onChange(next);
+    requestReply(next);
+  };
+
+  const handleClear = () => {
+    if (!confirm("确定清空这道题的追问记录吗？")) return;
+    setMessages([]);
+    setError(null);
+    onChange([]);
+  };
+
+  const handlePromote = (message: ChatMessage, field: PromotableField) => {
+    onPromote(field, message.text);
+    setPromoted(`${message.at}:${field}`);
+  };
+
+  const awaitingReply = messages.length > 0 && messages[messages.length - 1].role === 'user';
+
+  return (
+    <div className="space-y-3">
+      {messages.length > 0 && (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {messages.map(m => (
+            <div key={m.at} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[85%] rounded-xl px-3 py-2 text-sm whitespace-pre-wrap ${
+                m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+              }`}>
+                {m.text}
+              </div>
+              {m.role === 'tutor' && (
+                <div className="flex gap-3 mt-1 px-1">
+                  {(Object.keys(PROMOTE_LABELS) as PromotableField[]).map(field => (
+                    <button key={field} onClick={() => handlePromote(m, field)} className="text-[11px] text-blue-600">
+                      {promoted === `${m.at}:${field}` ? '已写入 ✓' : PROMOTE_LABELS[field]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {isSending && (
+            <div className="text-xs text-gray-400 flex items-center gap-1"><RefreshCw size={12} className="animate-spin" /> AI 思考中...</div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 text-red-600 p-2 rounded-lg text-xs flex items-center justify-between">
+          <span>{error}</span>
+          {awaitingReply && <button onClick={() => requestReply(messages)} className="font-bold ml-2">重试</button>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder="哪一步没看懂？例如：为什么不能选 C？"
+          className="flex-1 h-16 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm resize-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={isSending || !input.trim()}
+          className="px-3 rounded-lg bg-blue-600 text-white text-sm font-medium disabled:opacity-40"
+        >
+          发送
+        </button>
+      </div>
+      {messages.length > 0 && (
+        <button onClick={handleClear} className="text-xs text-gray-400">清空追问记录</button>
+      )}
+    </div>
+  );
+};
+
+const MIN_CROP_FRACTION = 0.02; // Smaller drags are treated as a tap
+
+// Image with drag-to-select; reports the finished rectangle (null for a tap) in fractions of the image
+const CropSurface = ({ src, rects, onSelect, imageClassName, dimOutside = false }: {
+  src: string,
+  rects: CropRect[],
+  onSelect: (rect: CropRect | null) => void,
+  imageClassName: string,
+  dimOutside?: boolean, // Darken everything outside a single selection
+}) => {
+  const dragStart = useRef<{ x: number, y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<CropRect | null>(null);
+
+  const toFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - box.left) / box.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - box.top) / box.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = toFraction(e);
+    setDragRect(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const point = toFraction(e);
+    setDragRect({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    onSelect(dragRect && dragRect.width > MIN_CROP_FRACTION && dragRect.height > MIN_CROP_FRACTION ? dragRect : null);
+    setDragRect(null);
+  };
+
+  const shown = dragRect ? (dimOutside ? [dragRect] : [...rects, dragRect]) : rects;
+
+  return (
+    <div
+      className="relative select-none touch-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      <img src={src} className={imageClassName} draggable={false} />
+      {shown.map((rect, i) => (
+        <div
+          key={i}
+          className={`absolute border-2 border-blue-400 pointer-events-none ${
+            dimOutside ? 'shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]' : 'bg-blue-400/20'
+          }`}
+          style={{
+            left: `${rect.x * 100}%`,
+            top: `${rect.y * 100}%`,
+            width: `${rect.width * 100}%`,
+            height: `${rect.height * 100}%`,
+          }}
+        >
+          {!dimOutside && i < rects.length && (
+            <span className="absolute top-0 left-0 bg-blue-500 text-white text-xs px-1">{i + 1}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Crop / rotate / contrast step between picking a photo and sending it to the AI
+const ImageEditor = ({ src, onConfirm, onCancel }: { src: string, onConfirm: (dataUrl: string) => void, onCancel: () => void }) => {
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_IMAGE_EDITS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // The preview shows rotation and contrast; the crop is drawn on top of it
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(src)
+      .then(img => {
+        if (!cancelled) setPreview(renderEdits(img, { ...edits, crop: null }, 800).toDataURL('image/jpeg', 0.8));
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError('浏览器无法处理该图片格式（如 HEIC），可直接使用原图。');
+      });
+    return () => { cancelled = true; };
+  }, [src, edits.rotation, edits.contrast]);
+
+  const rotate = (delta: 90 | -90) => {
+    // The crop is stored in rotated coordinates, so it no longer applies after turning
+    setEdits(prev => ({ ...prev, crop: null, rotation: ((prev.rotation + delta + 360) % 360) as ImageEdits['rotation'] }));
+  };
+
+  const handleConfirm = async () => {
+    setIsProcessing(true);
+    try {
+      onConfirm(await processImage(src, edits));
+    } catch (err) {
+      console.error(err);
+      setError('图片处理失败，可直接使用原图。');
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-900 pb-24">
+      <div className="px-4 py-3 flex justify-between items-center text-white">
+        <button onClick={onCancel} className="text-gray-300 text-sm">取消</button>
+        <span className="font-bold">调整图片</span>
+        <button
+          onClick={handleConfirm}
+          disabled={isProcessing || !preview}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium disabled:opacity-40"
+        >
+          {isProcessing ? '处理中...' : '确认并识别'}
+        </button>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 min-h-0">
+        {preview ? (
+          <CropSurface
+            src={preview}
+            rects={edits.crop ? [edits.crop] : []}
+            onSelect={crop => setEdits(prev => ({ ...prev, crop }))}
+            imageClassName="max-w-full max-h-[60vh] block"
+            dimOutside
+          />
+        ) : !error && (
+          <RefreshCw size={24} className="text-gray-500 animate-spin" />
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-4 mb-3 bg-red-50 text-red-600 p-3 rounded-lg text-sm flex items-center justify-between gap-2">
+          <span>{error}</span>
+          <button onClick={() => onConfirm(src)} className="text-xs font-bold whitespace-nowrap">使用原图</button>
+        </div>
+      )}
+
+      <div className="bg-gray-800 mx-4 rounded-xl p-4 space-y-4 text-gray-200">
+        <p className="text-xs text-gray-400 flex items-center gap-1"><Crop size={12} /> 在图片上拖动框选题目区域，轻点清除</p>
+        <div className="flex gap-2">
+          <button onClick={() => rotate(-90)} className="flex-1 py-2 bg-gray-700 rounded-lg text-xs flex items-center justify-center gap-1">
+            <RotateCcw size={14} /> 左转
+          </button>
+          <button onClick={() => rotate(90)} className="flex-1 py-2 bg-gray-700 rounded-lg text-xs flex items-center justify-center gap-1">
+            <RotateCw size={14} /> 右转
+          </button>
+          <button onClick={() => setEdits(DEFAULT_IMAGE_EDITS)} className="flex-1 py-2 bg-gray-700 rounded-lg text-xs">
+            还原
+          </button>
+        </div>
+        <label className="flex items-center gap-3 text-xs">
+          <Contrast size={14} />
+          <span className="whitespace-nowrap">对比度</span>
+          <input
+            type="range"
+            min={50}
+            max={200}
+            step={10}
+            value={edits.contrast}
+            onChange={e => setEdits(prev => ({ ...prev, contrast: Number(e.target.value) }))}
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{edits.contrast}%</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+// Markdown with LaTeX, tables and ==highlights==, as used in analyses and diagnoses
+const RichText = ({ text, className = '' }: { text: string, className?: string }) => {
+  const html = useMemo(() => renderRichText(text), [text]);
+  return <div className={`rich-text ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+// Textarea with a live preview underneath while the text uses Markdown or math
+const RichTextEditor = ({ value, onChange, placeholder, className }: {
+  value: string,
+  onChange: (value: string) => void,
+  placeholder?: string,
+  className: string,
+}) => (
+  <div className="space-y-2">
+    <textarea value={value} onChange={e => onChange(e.target.value)} placeholder={placeholder} className={className} />
+    {hasRichSyntax(value) && (
+      <div className="bg-white/70 border border-dashed border-gray-200 rounded-lg p-3">
+        <p className="text-[10px] text-gray-400 mb-1">预览</p>
+        <RichText text={value} className="text-sm text-gray-700" />
+      </div>
+    )}
+  </div>
+);
+
+// Swipe between images via CSS scroll snapping; the dots follow the scroll position
+const ImageGallery = ({ images, imageClassName }: { images: QuestionImage[], imageClassName: string }) => {
+  const [index, setIndex] = useState(0);
+
+  if (images.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <div
+        onScroll={e => setIndex(Math.round(e.currentTarget.scrollLeft / e.currentTarget.clientWidth))}
+        className="flex overflow-x-auto snap-x snap-mandatory rounded-lg"
+      >
+        {images.map(img => (
+          <div key={img.id} className="w-full flex-shrink-0 snap-center relative">
+            <img src={img.url} className={imageClassName} />
+            {images.length > 1 && (
+              <span className="absolute top-2 left-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded-full">{img.role}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      {images.length > 1 && (
+        <div className="flex justify-center gap-1.5 mt-2">
+          {images.map((img, i) => (
+            <span key={img.id} className={`w-1.5 h-1.5 rounded-full ${i === index ? 'bg-blue-600' : 'bg-gray-300'}`} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Add, remove, reorder and label a question's images; new images go through ImageEditor first
+const ImageListEditor = ({ images, onChange }: { images: QuestionImage[], onChange: (images: QuestionImage[]) => void }) => {
+  const [rawImage, setRawImage] = useState<string | null>(null);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setRawImage(reader.result as string);
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const handleConfirm = (url: string) => {
+    setRawImage(null);
+    const role: ImageRole = images.some(img => img.role === '题干') ? '材料' : '题干';
+    onChange([...images, { id: createImageId(), role, url }]);
+  };
+
+  const moveLeft = (index: number) => {
+    const next = [...images];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  return (
+    <>
+      {rawImage && (
+        <div className="fixed inset-0 z-50">
+          <ImageEditor src={rawImage} onConfirm={handleConfirm} onCancel={() => setRawImage(null)} />
+        </div>
+      )}
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {images.map((img, i) => (
+          <div key={img.id} className="w-24 flex-shrink-0 space-y-1">
+            <div className="relative">
+              <img src={img.thumbnailUrl || img.url} className="w-24 h-24 object-cover rounded-lg bg-gray-100" />
+              {images.length > 1 && (
+                <button
+                  onClick={() => onChange(images.filter(other => other.id !== img.id))}
+                  className="absolute top-1 right-1 bg-black/50 text-white rounded-full p-1"
+                  title="移除"
+                >
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <select
+                value={img.role}
+                onChange={e => onChange(images.map(other => other.id === img.id ? { ...other, role: e.target.value as ImageRole } : other))}
+                className="flex-1 min-w-0 bg-gray-50 border border-gray-200 rounded p-1 text-xs"
+              >
+                {IMAGE_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+              </select>
+              <button onClick={() => moveLeft(i)} disabled={i === 0} className="text-gray-400 disabled:opacity-30" title="前移">
+                <ChevronRight size={14} className="rotate-180" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <label className="w-24 h-24 flex-shrink-0 border-2 border-dashed border-gray-200 rounded-lg flex flex-col items-center justify-center gap-1 text-gray-400 text-xs cursor-pointer">
+          <Plus size={18} /> 添加图片
+          <input type="file" accept="image/*" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+    </>
+  );
+};
+
+const DETECT_INTERVAL_MS = 300;
+
+// Live viewfinder that outlines the page and deskews each shot; falls back to a file picker without getUserMedia
+const CameraCapture = ({ onDone, onCancel }: { onDone: (shots: string[]) => void, onCancel: () => void }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [frame, setFrame] = useState({ width: 0, height: 0 });
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [shots, setShots] = useState<string[]>([]);
+  const [autoDeskew, setAutoDeskew] = useState(true);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setUnavailable('当前浏览器不支持调用相机');
+      return;
+    }
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play().catch(err => console.error(err));
+        }
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setUnavailable('无法打开相机，请检查是否已授权');
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!autoDeskew) {
+      setQuad(null);
+      return;
+    }
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+      setFrame({ width: video.videoWidth, height: video.videoHeight });
+      setQuad(detectDocument(video, video.videoWidth, video.videoHeight));
+    }, DETECT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [autoDeskew]);
+
+  const handleShoot = async () => {
+    const video = videoRef.current;
+    if (!video?.videoWidth) return;
+    setIsCapturing(true);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')!.drawImage(video, 0, 0);
+      // Re-detect on the captured frame itself, the preview outline may be a few hundred ms old
+      const page = autoDeskew ? detectDocument(canvas, canvas.width, canvas.height) : null;
+      const blob = await encodeWithinBudget(page ? deskew(canvas, page) : canvas, IMAGE_BUDGET_BYTES);
+      const shot = await blobToDataUrl(blob);
+      setShots(prev => [...prev, shot]);
+    } catch (err) {
+      console.error(err);
+      alert('拍摄失败，请重试');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    const picked: string[] = [];
+    for (const file of files) {
+      const raw = await blobToDataUrl(file);
+      picked.push(await processImage(raw, DEFAULT_IMAGE_EDITS).catch(() => raw));
+    }
+    onDone(picked);
+  };
+
+  if (unavailable) {
+    return (
+      <div className="flex flex-col h-full bg-gray-900 text-white items-center justify-center p-6 gap-4">
+        <Camera size={40} className="text-gray-500" />
+        <p className="text-sm text-gray-300">{unavailable}，可改用系统相机或相册。</p>
+        <label className="bg-blue-600 px-6 py-3 rounded-full text-sm font-medium cursor-pointer">
+          拍照 / 选择图片
+          <input type="file" accept="image/*" capture="environment" multiple className="hidden" onChange={handleFiles} />
+        </label>
+        <button onClick={onCancel} className="text-gray-400 text-sm">取消</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-black text-white">
+      <div className="px-4 py-3 flex justify-between items-center">
+        <button onClick={onCancel} className="text-gray-300 text-sm">取消</button>
+        <button
+          onClick={() => setAutoDeskew(!autoDeskew)}
+          className={`text-xs px-3 py-1 rounded-full border ${autoDeskew ? 'border-green-400 text-green-400' : 'border-gray-500 text-gray-400'}`}
+        >
+          自动矫正{autoDeskew ? '开' : '关'}
+        </button>
+        <button
+          onClick={() => onDone(shots)}
+          disabled={shots.length === 0}
+          className="bg-blue-600 px-4 py-1.5 rounded-full text-sm font-medium disabled:opacity-40"
+        >
+          完成 {shots.length}
+        </button>
+      </div>
+
+      <div className="flex-1 relative min-h-0">
+        <video ref={videoRef} playsInline muted className="w-full h-full object-contain" />
+        {quad && frame.width > 0 && (
+          <svg viewBox={`0 0 ${frame.width} ${frame.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+            <polygon
+              points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="rgba(34,197,94,0.15)"
+              stroke="rgb(34,197,94)"
+              strokeWidth={frame.width / 200}
+            />
+          </svg>
+        )}
+      </div>
+
+      <div className="px-4 py-4 flex items-center gap-4">
+        <div className="flex-1 flex gap-2 overflow-x-auto">
+          {shots.map((shot, i) => (
+            <button key={i} onClick={() => setShots(prev => prev.filter((_, j) => j !== i))} className="relative flex-shrink-0" title="删除">
+              <img src={shot} className="w-12 h-12 object-cover rounded" />
+              <XCircle size={14} className="absolute -top-1 -right-1 text-white bg-black rounded-full" />
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleShoot}
+          disabled={isCapturing}
+          className="w-16 h-16 rounded-full border-4 border-white bg-white/20 active:bg-white/60 disabled:opacity-50 flex-shrink-0"
+          aria-label="拍摄"
+        />
+        <div className="flex-1" />
+      </div>
+    </div>
+  );
+};
+
+const DRAFT_AUTOSAVE_MS = 500;
+
+const describeDraft = (d: QuestionDraft) => d.subCategory || d.questionText.slice(0, 30) || '未识别的题目';
+
+const AddQuestion = ({ onSave, onSaveMany, onBatchPendingChange, onCancel }: {
+  onSave: (q: Question) => void,
+  onSaveMany: (questions: Question[]) => void,
+  onBatchPendingChange: (pending: boolean) => void,
+  onCancel: () => void,
+}) => {
+  const [isBatch, setIsBatch] = useState(false);
+  const [isCamera, setIsCamera] = useState(false);
+  const [batchShots, setBatchShots] = useState<string[]>([]); // Multi-shot captures handed to the batch queue
+  const [rawImage, setRawImage] = useState<string | null>(null); // Picked file, before editing
+  // The form edits a draft that is autosaved, so leaving the tab or reloading loses nothing
+  const [draft, setDraft] = useState<QuestionDraft | null>(null);
+  const [drafts, setDrafts] = useState<QuestionDraft[]>([]); // Unfinished drafts offered on the start screen
+  const draftRef = useRef<QuestionDraft | null>(null);
+  draftRef.current = draft;
+
+  const update = (patch: Partial<QuestionDraft>) => setDraft(prev => prev && { ...prev, ...patch });
+
+  useEffect(() => {
+    if (draft) return;
+    loadDrafts().then(setDrafts).catch(console.error);
+  }, [draft === null]);
+
+  useEffect(() => {
+    if (!draft) return;
+    const timer = window.setTimeout(() => saveDraft(draft).catch(console.error), DRAFT_AUTOSAVE_MS);
+    return () => window.clearTimeout(timer);
+  }, [draft]);
+
+  // Flush the pending autosave when the tab is switched or the page is hidden
+  useEffect(() => {
+    const flush = () => {
+      if (draftRef.current) saveDraft(draftRef.current).catch(console.error);
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      flush();
+    };
+  }, []);
+
+  // AI results for the open draft, including ones started before it was last left
+  useEffect(() => {
+    const handleChange = (e: Event) => {
+      const { id, patch } = (e as CustomEvent<DraftChange>).detail;
+      setDraft(prev => prev && prev.id === id ? { ...prev, ...patch } : prev);
+      setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+    };
+    window.addEventListener(DRAFT_EVENT, handleChange);
+    return () => window.removeEventListener(DRAFT_EVENT, handleChange);
+  }, []);
+
+  const isAnalyzing = !!draft && isDraftTaskRunning(draft.id, 'classify');
+  const isDeepAnalyzing = !!draft && isDraftTaskRunning(draft.id, 'root_cause');
+
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onloadend = () => setRawImage(reader.result as string);
+    reader.readAsDataURL(file);
+    // Allow picking the same file again after cancelling the editor
+    e.target.value = '';
+  };
+
+  const handleEditConfirm = async (processed: string) => {
+    const created = createDraft([{ id: createImageId(), role: '题干', url: processed }]);
+    setRawImage(null);
+    setDraft(created);
+    try {
+      // The analysis result is merged into the stored draft, so it has to exist first
+      await saveDraft(created);
+    } catch (err) {
+      console.error(err);
+      update({ analysisError: describeStorageError(err) });
+      return;
+    }
+    analyzeImage(created);
+  };
+
+  const analyzeImage = (target: QuestionDraft) => {
+    update({ analysisError: null });
+    runDraftTask(target.id, 'classify', async () => {
+      try {
+        const data = await getAnalysisService().classify(await toImageInputs(target.images));
+        return {
+          subject: data.subject,
+          ...(data.category ? { category: data.category } : {}),
+          subCategory: data.subCategory,
+          questionText: data.questionText,
+          aiAnalysis: data.analysis,
+          correctResolution: data.solution,
+          correctAnswer: data.correctAnswer,
+        };
+      } catch (err) {
+        console.error(err);
+        return {
+          // Keep whatever the model said so it can be edited by hand
+          ...(err instanceof AnalysisError && err.raw ? { aiAnalysis: err.raw } : {}),
+          analysisError: `${describeAnalysisError(err)} 请手动输入。`,
+        };
+      }
+    });
+  };
+
+  // New Function: Deep Analysis based on user thinking
+  const handleDeepAnalysis = () => {
+    if (!draft) return;
+    const { id, subject, category, subCategory, myThinking, correctResolution, images } = draft;
+    if (!myThinking && !correctResolution) {
+      update({ analysisError: "请先输入‘我的做题思路’或‘正确解析’，AI才能分析深层错因。" });
+      return;
+    }
+
+    update({ analysisError: null });
+    runDraftTask(id, 'root_cause', async () => {
+      try {
+        const result = await getAnalysisService().diagnoseRootCause({
+          subject, category, subCategory, myThinking, correctResolution, images: await toImageInputs(images),
+        });
+        return {
+          ...(result.analysis ? {
+            rootCause: result.analysis,
+            suggestion: result.suggestion,
+            causeTags: result.causeTags,
+            // Automatically suggest "Review Needed" when analysis is complete
+            masteryStatus: 'review_needed' as const,
+          } : {}),
+          ...(result.refinedSubCategory ? { subCategory: result.refinedSubCategory } : {}),
+        };
+      } catch (e) {
+        console.error(e);
+        return { analysisError: `深度分析失败：${describeAnalysisError(e)}` };
+      }
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft || draft.images.length === 0) return;
+    const { id, updatedAt, analysisError, masteryStatus, ...fields } = draft;
+    const newQ: Question = {
+      ...fields,
+      id: Date.now().toString(),
+      masteryStatus: null,
+      createdAt: Date.now(),
+      reviewCount: 0,
+      lastReviewedAt: null,
+    };
+    const saved = changeMastery(newQ, masteryStatus);
+    saved.schedule = createInitialSchedule(saved);
+    // Clear the ref first so the unmount flush does not write the draft back
+    draftRef.current = null;
+    deleteDraft(id).catch(console.error);
+    onSave(saved);
+  };
+
+  // Back to the start screen; the draft stays in the list
+  const handleLeaveDraft = () => {
+    if (draft) saveDraft(draft).catch(console.error);
+    setDraft(null);
+  };
+
+  const handleDiscardDraft = (d: QuestionDraft) => {
+    if (!window.confirm(`确定丢弃草稿“${describeDraft(d)}”吗？`)) return;
+    setDrafts(prev => prev.filter(x => x.id !== d.id));
+    deleteDraft(d.id).catch(console.error);
+  };
+
+  // One shot continues in this form; several go through the batch queue
+  const handleShots = (shots: string[]) => {
+    setIsCamera(false);
+    if (shots.length === 1) {
+      handleEditConfirm(shots[0]);
+    } else if (shots.length > 1) {
+      setBatchShots(shots);
+      setIsBatch(true);
+    }
+  };
+
+  if (isCamera) {
+    return (
+      <div className="fixed inset-0 z-50">
+        <CameraCapture onDone={handleShots} onCancel={() => setIsCamera(false)} />
+      </div>
+    );
+  }
+
+  if (isBatch) {
+    return (
+      <BatchImport
+        initialImages={batchShots}
+        onSave={onSaveMany}
+        onPendingChange={onBatchPendingChange}
+        onCancel={() => {
+          setIsBatch(false);
+          setBatchShots([]);
+        }}
+      />
+    );
+  }
+
+  if (!draft && rawImage) {
+    return <ImageEditor src={rawImage} onConfirm={handleEditConfirm} onCancel={() => setRawImage(null)} />;
+  }
+
+  if (!draft) {
+    return (
+      <div className="p-6 flex flex-col items-center h-full overflow-y-auto pb-24">
+        <h2 className="text-xl font-bold mb-8 mt-6">录入错题</h2>
+        <label className="w-64 h-64 shrink-0 border-2 border-dashed border-blue-300 rounded-3xl flex flex-col items-center justify-center bg-blue-50 cursor-pointer hover:bg-blue-100 transition-colors">
+          <Camera size={48} className="text-blue-500 mb-4" />
+          <span className="text-blue-600 font-medium">拍照 / 上传截图</span>
+          <span className="text-blue-400 text-xs mt-2">支持AI自动识别分类</span>
+          <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+        </label>
+        <button
+          onClick={() => setIsCamera(true)}
+          className="mt-6 text-sm text-blue-600 font-medium flex items-center gap-1"
+        >
+          <Camera size={16} /> 相机连拍（自动识别纸张边缘）
+        </button>
+        <button
+          onClick={() => setIsBatch(true)}
+          className="mt-4 text-sm text-blue-600 font-medium flex items-center gap-1"
+        >
+          <Upload size={16} /> 批量导入多张截图 / PDF 试卷
+        </button>
+
+        {drafts.length > 0 && (
+          <div className="w-full max-w-md mt-8 space-y-2">
+            <h3 className="text-sm font-bold text-gray-700 flex items-center gap-1">
+              <FileText size={14} /> 未完成草稿 ({drafts.length})
+            </h3>
+            {drafts.map(d => (
+              <div key={d.id} className="bg-white border rounded-xl p-2 flex items-center gap-3 shadow-sm">
+                <img src={getPreviewUrl(d)} alt="" className="w-12 h-12 rounded-lg object-cover bg-gray-100 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-800 truncate">{describeDraft(d)}</p>
+                  <p className="text-xs text-gray-400 flex items-center gap-1">
+                    {new Date(d.updatedAt).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    {(isDraftTaskRunning(d.id, 'classify') || isDraftTaskRunning(d.id, 'root_cause')) && (
+                      <span className="text-blue-500 flex items-center gap-0.5"><RefreshCw size={10} className="animate-spin" /> AI 分析中</span>
+                    )}
+                  </p>
+                </div>
+                <button onClick={() => setDraft(d)} className="text-xs text-blue-600 font-medium px-2 py-1">继续编辑</button>
+                <button onClick={() => handleDiscardDraft(d)} className="text-gray-400 hover:text-red-500 p-1" title="丢弃草稿">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const {
+    images, subject, category, subCategory, questionText, aiAnalysis, myThinking, correctResolution,
+    correctAnswer, rootCause, suggestion, causeTags, masteryStatus: tempMastery, analysisError,
+  } = draft;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={handleLeaveDraft} className="text-gray-500 text-sm">存为草稿</button>
+        <span className="font-bold text-gray-800">编辑错题详情</span>
+        <button 
+          onClick={handleSave} 
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1"
+        >
+          <Save size={14} /> 保存
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {/* Image Preview */}
+        <div className="bg-white p-2 rounded-xl border shadow-sm space-y-3">
+           <ImageGallery images={images} imageClassName="w-full h-auto rounded-lg max-h-60 object-contain bg-black" />
+           <p className="text-xs text-gray-400 px-1">材料分析题可补充图表（材料）或官方解析截图（解析），AI 会一并参考。</p>
+           <ImageListEditor images={images} onChange={images => update({ images })} />
+           {images.length > 1 && (
+             <button
+               onClick={() => analyzeImage(draft)}
+               disabled={isAnalyzing}
+               className="w-full py-2 text-xs text-blue-600 font-medium bg-blue-50 rounded-lg flex items-center justify-center gap-1 disabled:opacity-50"
+             >
+               <RefreshCw size={12} className={isAnalyzing ? 'animate-spin' : ''} /> 结合全部图片重新识别
+             </button>
+           )}
+        </div>
+
+        {/* AI Status */}
+        {isAnalyzing && (
+          <div className="bg-blue-50 text-blue-700 p-3 rounded-lg flex items-center gap-2 text-sm animate-pulse">
+            <Brain size={16} /> AI正在分析题型和考点...
+          </div>
+        )}
+        {analysisError && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            {analysisError}
+          </div>
+        )}
+
+        {/* Classification */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-4">
+          <div className="flex items-center gap-2 mb-2">
+             <FileText size={18} className="text-blue-600"/>
+             <h3 className="font-bold text-gray-800">题型归类</h3>
+          </div>
+          
+          <ClassificationFields
+            subject={subject}
+            category={category}
+            subCategory={subCategory}
+            onSubjectChange={subject => update({ subject })}
+            onCategoryChange={category => update({ category })}
+            onSubCategoryChange={subCategory => update({ subCategory })}
+          />
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">题干文字 (AI提取，用于搜索)</label>
+            <textarea 
+              value={questionText}
+              onChange={e => update({ questionText: e.target.value })}
+              className="w-full h-20 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+            />
+          </div>
+          {aiAnalysis && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">考点分析 (AI生成)</label>
+              <RichTextEditor
+                value={aiAnalysis}
+                onChange={aiAnalysis => update({ aiAnalysis })}
+                className="w-full h-24 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* User Thinking */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
+          <div className="flex items-center gap-2">
+             <PenTool size={18} className="text-orange-500"/>
+             <h3 className="font-bold text-gray-800">我的做题思路</h3>
+          </div>
+          <p className="text-xs text-gray-400">当时是怎么想的？为什么选错了？</p>
+          <textarea 
+            value={myThinking}
+            onChange={e => update({ myThinking: e.target.value })}
+            className="w-full h-24 bg-orange-50 border border-orange-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-orange-200 outline-none"
+            placeholder="请在此输入你当时的思路，AI将帮助你分析错误根源..."
+          />
+        </div>
+
+        {/* Correct Resolution */}
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
+          <div className="flex items-center gap-2">
+             <CheckCircle size={18} className="text-green-600"/>
+             <h3 className="font-bold text-gray-800">答案解析</h3>
+          </div>
+          <CorrectAnswerInput category={category} value={correctAnswer} onChange={correctAnswer => update({ correctAnswer })} />
+          <RichTextEditor
+            value={correctResolution}
+            onChange={correctResolution => update({ correctResolution })}
+            placeholder="输入正确答案和解析，公式可写成 $\frac{a}{b}$..."
+            className="w-full h-32 bg-green-50 border border-green-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-green-200 outline-none"
+          />
+        </div>
+
+        {/* Deep Analysis Action */}
+        <div className="flex flex-col gap-3">
+          <button
+            onClick={handleDeepAnalysis}
+            disabled={isDeepAnalyzing || (!myThinking && !correctResolution)}
+            className={`w-full py-3 rounded-xl font-bold text-white shadow-md flex items-center justify-center gap-2 transition-all ${
+              !myThinking && !correctResolution ? 'bg-gray-300 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 active:scale-95'
+            }`}
+          >
+            {isDeepAnalyzing ? (
+              <>
+                 <RefreshCw size={18} className="animate-spin" /> 深度诊断中...
+              </>
+            ) : (
+              <>
+                <Brain size={18} /> AI 深度归因分析
+              </>
+            )}
+          </button>
+          
+          {(!myThinking && !correctResolution) && (
+             <p className="text-xs text-center text-gray-400">请先补充“做题思路”或“正确解析”，让AI为你精准把脉。</p>
+          )}
+
+          {/* Root Cause Result */}
+          {rootCause && (
+            <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 space-y-4 animate-fade-in relative">
+               <div className="flex items-center gap-2 text-indigo-800">
+                 <Lightbulb size={18} />
+                 <h3 className="font-bold">AI 错因诊断报告</h3>
+               </div>
+               <div>
+                 <label className="block text-xs text-indigo-500 mb-2">错因标签</label>
+                 <CauseTagPicker value={causeTags} onChange={causeTags => update({ causeTags })} />
+               </div>
+               <div>
+                 <label className="block text-xs text-indigo-500 mb-1">诊断</label>
+                 <RichTextEditor
+                   value={rootCause}
+                   onChange={rootCause => update({ rootCause })}
+                   className="w-full h-32 bg-transparent border-none text-sm text-gray-700 focus:ring-0 resize-none"
+                 />
+               </div>
+               <div>
+                 <label className="block text-xs text-indigo-500 mb-1">💡 🚀 改进方案</label>
+                 <textarea 
+                   value={suggestion}
+                   onChange={e => update({ suggestion: e.target.value })}
+                   className="w-full h-24 bg-white/60 border border-indigo-100 rounded-lg p-2 text-sm text-gray-700 focus:ring-0 resize-none"
+                 />
+               </div>
+               
+               {/* Mastery Actions in Analysis Report */}
+               <div className="flex gap-2 pt-2 border-t border-indigo-100">
+                 <button 
+                   onClick={() => update({ masteryStatus: 'review_needed' })}
+                   className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
+                     tempMastery === 'review_needed' 
+                       ? 'bg-red-50 border-red-200 text-red-600' 
+                       : 'bg-white border-transparent text-gray-400 hover:bg-gray-50'
+                   }`}
+                 >
+                   <AlertCircle size={14} /> 需加强 (重点复习)
+                 </button>
+                 <button 
+                   onClick={() => update({ masteryStatus: 'mastered' })}
+                   className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
+                     tempMastery === 'mastered' 
+                       ? 'bg-green-50 border-green-200 text-green-600' 
+                       : 'bg-white border-transparent text-gray-400 hover:bg-gray-50'
+                   }`}
+                 >
+                   <CheckCircle size={14} /> 已掌握
+                 </button>
+               </div>
+               <p className="text-xs text-indigo-400 italic text-center mt-1">标记为“需加强”将自动加入复习提醒列表</p>
+            </div>
+          )}
+        </div>
+
+      </div>
+    </div>
+  );
+};
+
+// 4. Review / Exam Mode
+const ReviewMode = ({ questions, onUpdateQuestion, onDeleteQuestion }: {
+  questions: Question[],
+  onUpdateQuestion: (q: Question) => void,
+  onDeleteQuestion: (q: Question) => void,
+}) => {
+  const [mode, setMode] = useState<'list' | 'exam' | 'detail' | 'mock' | 'taxonomy' | 'causes' | 'history' | 'summary' | 'compose' | 'print' | 'variants' | 'report' | 'reports' | 'writing'>('list');
+  const [reports, setReports] = useState<PeriodReport[]>([]);
+  const [reportPeriod, setReportPeriod] = useState<string | null>(null);
+  const [reportBackMode, setReportBackMode] = useState<'list' | 'reports'>('list');
+  const [writingTarget, setWritingTarget] = useState<{ questionId: string, backMode: 'detail' | 'exam' } | null>(null);
+  const [variantSet, setVariantSet] = useState<{ title: string, items: VariantItem[], backMode: 'list' | 'detail' } | null>(null);
+  const [printSet, setPrintSet] = useState<{ title: string, questions: Question[] } | null>(null);
+  const [composerConfig, setComposerConfig] = useState<ComposerConfig | undefined>(undefined); // Reused settings, e.g. from a past paper
+  const [composerPaper, setComposerPaper] = useState<string[] | undefined>(undefined); // That paper's question ids
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // The running exam is a stored session, so it survives tab switches and reloads
+  const [session, setSession] = useState<ExamSession | null>(null);
+  const sessionRef = useRef<ExamSession | null>(null); // The session as last written, for page lifecycle handlers
+  const [sessions, setSessions] = useState<ExamSession[]>([]);
+  const [summaryId, setSummaryId] = useState<string | null>(null);
+  const [summaryBackMode, setSummaryBackMode] = useState<'list' | 'history'>('list');
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [lastAttempt, setLastAttempt] = useState<AnswerAttempt | null>(null);
+  const questionStartedAt = useRef(Date.now());
+  const [filterMode, setFilterMode] = useState<'all' | 'priority' | 'due'>('all');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const dueQuestions = getDueQuestions(questions);
+  const searchIndex = useMemo(() => new Map(questions.map(q => [q.id, buildSearchDocument(q)])), [questions]);
+  const isSearching = query.trim() !== '' || hasActiveFilters(filters);
+  const questionsById = useMemo(() => new Map(questions.map(q => [q.id, q])), [questions]);
+
+  // Anything created before the stored lists arrive is already in state and wins over its stored copy
+  useEffect(() => {
+    loadExamSessions()
+      .then(loaded => {
+        const active = sessionRef.current;
+        if (active && !active.endedAt) {
+          loaded.filter(s => !s.endedAt && s.id !== active.id).forEach(s => storeSession({ ...s, endedAt: Date.now() }));
+        }
+        setSessions(prev => [...prev, ...loaded.filter(s => !prev.some(p => p.id === s.id))]
+          .sort((a, b) => b.startedAt - a.startedAt));
+      })
+      .catch(console.error);
+    loadPeriodReports()
+      .then(loaded => setReports(prev => [...prev, ...loaded.filter(r => !prev.some(p => p.periodKey === r.periodKey))]
+        .sort((a, b) => (getPeriodBounds(b.periodKey)?.start || 0) - (getPeriodBounds(a.periodKey)?.start || 0))))
+      .catch(console.error);
+  }, []);
+
+  const openReport = (periodKey: string, backMode: 'list' | 'reports') => {
+    setReportPeriod(periodKey);
+    setReportBackMode(backMode);
+    setMode('report');
+  };
+
+  const handleReportSaved = (report: PeriodReport) => {
+    setReports(prev => [report, ...prev.filter(r => r.periodKey !== report.periodKey)]
+      .sort((a, b) => (getPeriodBounds(b.periodKey)?.start || 0) - (getPeriodBounds(a.periodKey)?.start || 0)));
+    savePeriodReport(report).catch(console.error);
+  };
+
+  const removeReport = (periodKey: string) => {
+    if (!window.confirm(`确定删除“${periodKey}”的报告吗？`)) return;
+    setReports(prev => prev.filter(r => r.periodKey !== periodKey));
+    deletePeriodReport(periodKey).catch(console.error);
+  };
+
+  const storeSession = (next: ExamSession) => {
+    setSessions(prev => [next, ...prev.filter(s => s.id !== next.id)].sort((a, b) => b.startedAt - a.startedAt));
+    saveExamSession(next).catch(console.error);
+  };
+
+  const updateSession = (next: ExamSession) => {
+    sessionRef.current = next;
+    setSession(next);
+    storeSession(next);
+  };
+
+  // Only one exam can be resumed, so any other unfinished one is closed where it stood
+  const closeUnfinishedSessions = (keepId: string) => {
+    sessions.filter(s => !s.endedAt && s.id !== keepId).forEach(s => storeSession({ ...s, endedAt: Date.now() }));
+  };
+
+  const startSession = (title: string, exam: Question[], composer?: ComposerConfig) => {
+    const created = createExamSession(title, exam, composer);
+    closeUnfinishedSessions(created.id);
+    updateSession(created);
+    setShowAnswer(false);
+    setMode('exam');
+  };
+
+  const resumeSession = (s: ExamSession) => {
+    // Questions deleted since the session was saved are dropped
+    const items = s.items.filter(i => questionsById.has(i.questionId));
+    if (items.length === 0) {
+      alert("这次练习的题目都已被删除！");
+      return;
+    }
+    const droppedBefore = s.items.slice(0, s.currentIndex).filter(i => !questionsById.has(i.questionId)).length;
+    closeUnfinishedSessions(s.id);
+    updateSession({ ...s, items, currentIndex: Math.min(s.currentIndex - droppedBefore, items.length - 1) });
+    setShowAnswer(false);
+    setMode('exam');
+  };
+
+  const redoMissed = (s: ExamSession) => {
+    const missed = s.items
+      .filter(isMissedItem)
+      .map(i => questionsById.get(i.questionId))
+      .filter((q): q is Question => !!q);
+    if (missed.length === 0) {
+      alert("这次练习没有需要重做的错题！");
+      return;
+    }
+    startSession(s.title.endsWith(REDO_TITLE_SUFFIX) ? s.title : `${s.title}${REDO_TITLE_SUFFIX}`, missed);
+  };
+
+  const removeSession = (s: ExamSession) => {
+    if (!window.confirm(`确定删除练习记录“${s.title}”吗？`)) return;
+    setSessions(prev => prev.filter(x => x.id !== s.id));
+    deleteExamSession(s.id).catch(console.error);
+  };
+
+  const startVariantPractice = (title: string, items: VariantItem[], backMode: 'list' | 'detail' = 'list') => {
+    setVariantSet({ title, items, backMode });
+    setMode('variants');
+  };
+
+  // Items not yet answered correctly come first
+  const startAllVariants = () => {
+    const items = questions.flatMap(parent => (parent.variants || []).map(variant => ({ parent, variant })));
+    const open = items.filter(({ variant }) => !variant.attempts?.some(a => a.correct));
+    startVariantPractice("变式训练", [...shuffle(open), ...shuffle(items.filter(item => !open.includes(item)))]);
+  };
+
+  // Chat replies, generated variants and writing scores arrive asynchronously, so they are merged into the latest version of the question
+  const latestQuestions = useRef(questionsById);
+  latestQuestions.current = questionsById;
+
+  const saveChat = (id: string, chat: ChatMessage[]) => {
+    const latest = latestQuestions.current.get(id);
+    if (latest) onUpdateQuestion({ ...latest, chat });
+  };
+
+  const saveVariants = (id: string, change: (variants: VariantQuestion[]) => VariantQuestion[]) => {
+    const latest = latestQuestions.current.get(id);
+    if (latest) onUpdateQuestion({ ...latest, variants: change(latest.variants || []) });
+  };
+
+  const promoteToField = (id: string, field: PromotableField, text: string) => {
+    const latest = latestQuestions.current.get(id);
+    if (latest) onUpdateQuestion({ ...latest, [field]: appendText(latest[field], text) });
+  };
+
+  const openWriting = (q: Question, backMode: 'detail' | 'exam') => {
+    setWritingTarget({ questionId: q.id, backMode });
+    setMode('writing');
+  };
+
+  const recordWritingAttempt = (id: string, attempt: WritingAttempt) => {
+    const latest = latestQuestions.current.get(id);
+    if (latest) onUpdateQuestion({ ...latest, writingAttempts: [...(latest.writingAttempts || []), attempt] });
+  };
+
+  const recordVariantAttempt = (parentId: string, variantId: string, attempt: AnswerAttempt) => {
+    saveVariants(parentId, variants => variants.map(v => v.id === variantId ? { ...v, attempts: [...(v.attempts || []), attempt] } : v));
+  };
+
+  const openPrint = (title: string, set: Question[]) => {
+    setPrintSet({ title, questions: set });
+    setMode('print');
+  };
+
+  const openComposer = (config?: ComposerConfig, paper?: string[]) => {
+    setComposerConfig(config);
+    setComposerPaper(paper);
+    setMode('compose');
+  };
+
+  const openSummary = (id: string, backMode: 'list' | 'history') => {
+    setSummaryId(id);
+    setSummaryBackMode(backMode);
+    setMode('summary');
+  };
+
+  const patchCurrentItem = (s: ExamSession, patch: Partial<ExamSessionItem>): ExamSession => ({
+    ...s,
+    items: s.items.map((item, i) => i === s.currentIndex ? { ...item, ...patch } : item),
+  });
+
+  // Adds the time since the current question was shown to its total
+  const withTimeSpent = (s: ExamSession) =>
+    patchCurrentItem(s, { timeSpentMs: s.items[s.currentIndex].timeSpentMs + Date.now() - questionStartedAt.current });
+
+  const startRandomExam = () => {
+    // The pool is whatever the list currently shows (tab + search + facets)
+    const pool = filteredList;
+    if (filterMode === 'due' && !isSearching) {
+      startDueReview();
+      return;
+    }
+    if (pool.length === 0) {
+      alert("当前列表没有题目可考！");
+      return;
+    }
+    startSession(isSearching ? "筛选结果练习" : filterMode === 'priority' ? "重点题目突击" : "随机巩固练习", shuffle(pool));
+  };
+
+  const startDueReview = () => {
+    if (dueQuestions.length === 0) {
+      alert("今天没有待复习的题目！");
+      return;
+    }
+    // Most overdue first, no shuffle
+    startSession("今日待复习", dueQuestions);
+  };
+
+  const startPeriodExam = (periodKey: string, periodQuestions: Question[]) => {
+    startSession(`${periodKey} 模拟考试`, shuffle(periodQuestions));
+  };
+
+  const startCauseExam = (tag: CauseTag, tagged: Question[]) => {
+    startSession(`错因专练：${tag}`, shuffle(tagged));
+  };
+
+  // Restart the per-question timer whenever a new question is shown
+  useEffect(() => {
+    questionStartedAt.current = Date.now();
+    setLastAttempt(null);
+  }, [session?.id, session?.currentIndex, mode]);
+
+  // Time is otherwise only added when moving between questions, so it is also saved when the page is
+  // hidden or closed, or the exam is left for another view; time away from the page is not counted
+  useEffect(() => {
+    if (mode !== 'exam') return;
+    const flush = () => {
+      const current = sessionRef.current;
+      if (!current || current.endedAt) return;
+      updateSession(withTimeSpent(current));
+      questionStartedAt.current = Date.now();
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+      else questionStartedAt.current = Date.now();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [mode]);
+
+  const handleSubmitAnswer = (q: Question, answer: string) => {
+    const attempt: AnswerAttempt = {
+      answer,
+      correct: gradeAnswer(q.correctAnswer || '', answer),
+      timeSpentMs: Date.now() - questionStartedAt.current,
+      answeredAt: Date.now(),
+    };
+    onUpdateQuestion({ ...q, attempts: [...(q.attempts || []), attempt] });
+    if (session) updateSession(patchCurrentItem(session, { answer, correct: attempt.correct, revealed: true }));
+    setLastAttempt(attempt);
+    setShowAnswer(true);
+  };
+
+  const handleRevealAnswer = () => {
+    if (session) updateSession(patchCurrentItem(session, { revealed: true }));
+    setShowAnswer(true);
+  };
+
+  const handleUpdateMastery = (q: Question, status: MasteryStatus) => {
+    onUpdateQuestion(markMastery(q, status));
+  };
+
+  const handleNext = (q: Question, grade?: RecallGrade) => {
+    if (!session) return;
+    // Increment review stats when proceeding from a question; a recall grade also reschedules it
+    onUpdateQuestion(grade ? applyReview(q, grade) : recordReview(q));
+
+    const answered = patchCurrentItem(withTimeSpent(session), grade ? { grade } : {});
+    if (session.currentIndex < session.items.length - 1) {
+      updateSession({ ...answered, currentIndex: session.currentIndex + 1 });
+      setShowAnswer(false);
+    } else {
+      updateSession({ ...answered, endedAt: Date.now() });
+      openSummary(session.id, 'list');
+    }
+  };
+
+  const handlePrevious = () => {
+    if (!session || session.currentIndex === 0) return;
+    updateSession({ ...withTimeSpent(session), currentIndex: session.currentIndex - 1 });
+    setShowAnswer(false);
+  };
+
+  // Leaves the session unfinished so it can be resumed from the list or the history; the time on the
+  // current question is saved as the exam view closes
+  const handleExitExam = () => {
+    setMode('list');
+  };
+
+  // Group questions by period
+  const periodGroups: { [key: string]: Question[] } = {};
+  questions.forEach(q => {
+    const key = getPeriodKey(q.createdAt);
+    if (!periodGroups[key]) periodGroups[key] = [];
+    periodGroups[key].push(q);
+  });
+
+  // Sort periods reverse chronologically
+  const periods = Object.keys(periodGroups).sort((a, b) =>
+    (getPeriodBounds(b)?.start || 0) - (getPeriodBounds(a)?.start || 0));
+
+  const tabList = filterMode === 'priority' 
+    ? questions.filter(q => q.masteryStatus === 'review_needed') 
+    : filterMode === 'due'
+      ? dueQuestions
+      : questions;
+  const filteredList = isSearching ? searchQuestions(tabList, searchIndex, query, filters) : tabList;
+
+  const subCategoryOptions = Array.from(new Set(
+    questions
+      .filter(q => !filters.category || q.category === filters.category)
+      .map(q => q.subCategory)
+      .filter(Boolean)
+  )).sort();
+
+  if (mode === 'mock') {
+    return (
+      <MockExam
+        questions={questions}
+        onRecordAttempts={updated => updated.forEach(onUpdateQuestion)}
+        onRecordWriting={recordWritingAttempt}
+        onExit={() => setMode('list')}
+      />
+    );
+  }
+
+  if (mode === 'taxonomy') {
+    return (
+      <TaxonomyBrowser
+        questions={questions}
+        onUpdateQuestion={onUpdateQuestion}
+        onOpenQuestion={id => {
+          setSelectedId(id);
+          setMode('detail');
+        }}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  if (mode === 'causes') {
+    return (
+      <CauseBrowser
+        questions={questions}
+        onOpenQuestion={id => {
+          setSelectedId(id);
+          setMode('detail');
+        }}
+        onPractice={startCauseExam}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  if (mode === 'report' && reportPeriod) {
+    return (
+      <PeriodReportView
+        key={reportPeriod}
+        periodKey={reportPeriod}
+        questions={questions}
+        report={reports.find(r => r.periodKey === reportPeriod)}
+        onSaved={handleReportSaved}
+        onBack={() => setMode(reportBackMode)}
+      />
+    );
+  }
+
+  if (mode === 'reports') {
+    return (
+      <ReportHistory
+        reports={reports}
+        onOpen={periodKey => openReport(periodKey, 'reports')}
+        onDelete={removeReport}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  const writingQuestion = writingTarget && questionsById.get(writingTarget.questionId);
+  if (mode === 'writing' && writingTarget && writingQuestion) {
+    return (
+      <WritingPractice
+        key={writingQuestion.id}
+        question={writingQuestion}
+        onRecord={attempt => recordWritingAttempt(writingQuestion.id, attempt)}
+        onBack={() => setMode(writingTarget.backMode)}
+      />
+    );
+  }
+
+  if (mode === 'variants' && variantSet) {
+    return (
+      <VariantPractice
+        title={variantSet.title}
+        items={variantSet.items}
+        onRecord={recordVariantAttempt}
+        onExit={() => setMode(variantSet.backMode)}
+      />
+    );
+  }
+
+  if (mode === 'print' && printSet) {
+    return <PrintPaper title={printSet.title} questions={printSet.questions} onBack={() => setMode('list')} />;
+  }
+
+  if (mode === 'compose') {
+    return (
+      <ExamComposer
+        questions={questions}
+        initialConfig={composerConfig}
+        initialPaper={composerPaper}
+        onStart={(config, paper) => startSession(`智能组卷 #${config.seed}`, paper, config)}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  if (mode === 'history') {
+    return (
+      <ExamHistory
+        sessions={sessions}
+        onOpen={id => openSummary(id, 'history')}
+        onResume={resumeSession}
+        onRedoMissed={redoMissed}
+        onDelete={removeSession}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  const summarySession = sessions.find(s => s.id === summaryId);
+  if (mode === 'summary' && summarySession) {
+    return (
+      <ExamSessionSummary
+        session={summarySession}
+        questionsById={questionsById}
+        onOpenQuestion={id => {
+          setSelectedId(id);
+          setMode('detail');
+        }}
+        onResume={() => resumeSession(summarySession)}
+        onRedoMissed={() => redoMissed(summarySession)}
+        onRecompose={summarySession.composer && (() => openComposer(summarySession.composer, summarySession.items.map(i => i.questionId)))}
+        onBack={() => setMode(summaryBackMode)}
+      />
+    );
+  }
+
+  const selectedQuestion = questions.find(q => q.id === selectedId);
+  if (mode === 'detail' && selectedQuestion) {
+    return (
+      <QuestionDetail
+        key={selectedQuestion.id}
+        question={selectedQuestion}
+        onSave={q => {
+          onUpdateQuestion(q);
+          setMode('list');
+        }}
+        onVariantsChange={change => saveVariants(selectedQuestion.id, change)}
+        onChatChange={chat => saveChat(selectedQuestion.id, chat)}
+        onDelete={q => {
+          onDeleteQuestion(q);
+          setMode('list');
+        }}
+        onPracticeVariants={q => startVariantPractice(`举一反三：${q.subCategory || q.category}`, (q.variants || []).map(variant => ({ parent: q, variant })), 'detail')}
+        onPracticeWriting={q => openWriting(q, 'detail')}
+        onBack={() => setMode('list')}
+      />
+    );
+  }
+
+  const unfinishedSession = sessions.find(s => !s.endedAt);
+  const variantCount = questions.reduce((sum, q) => sum + (q.variants?.length || 0), 0);
+
+  const currentExamQuestion = session && questionsById.get(session.items[session.currentIndex]?.questionId);
+  if (mode === 'exam' && session && currentExamQuestion) {
+    const q = currentExamQuestion;
+    return (
+      <div className="flex flex-col h-full bg-white pb-20">
+        <div className="bg-blue-600 text-white p-4 flex justify-between items-center shadow-md">
+           <button onClick={handleExitExam} className="text-blue-100 text-sm">退出</button>
+           <div className="flex flex-col items-center">
+             <span className="font-bold text-sm">{session.title}</span>
+             <span className="text-xs opacity-80">({session.currentIndex + 1}/{session.items.length})</span>
+           </div>
+           <span className="text-xs bg-blue-700 px-2 py-1 rounded">{q.category}</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+           {/* Question Image Area */}
+           <div className="mb-6">
+             {/* The official explanation image would give the answer away */}
+             <ImageGallery
+               key={q.id}
+               images={showAnswer ? q.images : q.images.filter(img => img.role !== '解析')}
+               imageClassName="w-full rounded-lg border border-gray-200"
+             />
+           </div>
+
+           {!showAnswer ? (
+             q.correctAnswer ? (
+               <div className="mt-4">
+                 <AnswerPanel key={q.id} question={q} onSubmit={answer => handleSubmitAnswer(q, answer)} />
+                 <button onClick={handleRevealAnswer} className="w-full text-center text-xs text-gray-400 mt-4">
+                   不作答，直接查看解析
+                 </button>
+               </div>
+             ) : (
+               <div className="text-center mt-8">
+                 {isWritingQuestion(q) && (
+                   <button
+                     onClick={() => openWriting(q, 'exam')}
+                     className="block mx-auto mb-4 bg-teal-600 text-white px-6 py-3 rounded-full font-medium shadow-sm active:scale-95 transition-transform"
+                   >
+                     写作作答{q.writingAttempts?.length ? `（已写 ${q.writingAttempts.length} 次）` : ''}
+                   </button>
+                 )}
+                 <button 
+                  onClick={handleRevealAnswer}
+                  className="bg-blue-50 text-blue-600 px-6 py-3 rounded-full font-medium shadow-sm active:scale-95 transition-transform"
+                 >
+                   查看解析
+                 </button>
+               </div>
+             )
+           ) : (
+             <div className="space-y-6 animate-fade-in">
+               {lastAttempt && <AttemptResult attempt={lastAttempt} question={q} />}
+
+               <div className="bg-orange-50 p-4 rounded-xl border border-orange-100">
+                 <h4 className="font-bold text-orange-800 mb-2 text-sm">你的历史错因</h4>
+                 <p className="text-gray-700 text-sm">{q.myThinking || "暂无记录"}</p>
+               </div>
+               
+               {q.rootCause && (
+                  <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
+                    <div className="flex items-center gap-2 mb-2 justify-between">
+                       <div className="flex items-center gap-2">
+                         <Brain size={16} className="text-indigo-600"/>
+                         <h4 className="font-bold text-indigo-800 text-sm">深度诊断</h4>
+                       </div>
+                    </div>
+                    {!!q.causeTags?.length && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {q.causeTags.map(tag => (
+                          <span key={tag} className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">{tag}</span>
+                        ))}
+                      </div>
+                    )}
+                    <RichText text={q.rootCause} className="text-gray-700 text-sm leading-relaxed mb-4" />
+                    {q.suggestion && (
+                      <p className="text-gray-700 text-sm whitespace-pre-wrap leading-relaxed mb-4">
+                        <span className="font-bold text-indigo-700">💡 🚀 改进方案：</span>{q.suggestion}
+                      </p>
+                    )}
+
+                    {/* Mastery Toggle in Exam Mode */}
+                    <div className="flex gap-2 pt-2 border-t border-indigo-200/50">
+                        <button 
+                          onClick={() => handleUpdateMastery(q, 'review_needed')}
+                          className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
+                            q.masteryStatus === 'review_needed' 
+                              ? 'bg-red-100 border-red-300 text-red-700 shadow-sm' 
+                              : 'bg-white/50 border-transparent text-gray-500 hover:bg-white'
+                          }`}
+                        >
+                          <AlertCircle size={14} /> 需加强
+                        </button>
+                        <button 
+                          onClick={() => handleUpdateMastery(q, 'mastered')}
+                          className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
+                            q.masteryStatus === 'mastered' 
+                              ? 'bg-green-100 border-green-300 text-green-700 shadow-sm' 
+                              : 'bg-white/50 border-transparent text-gray-500 hover:bg-white'
+                          }`}
+                        >
+                          <CheckCircle size={14} /> 已掌握
+                        </button>
+                    </div>
+                  </div>
+               )}
+
+               <div className="bg-green-50 p-4 rounded-xl border border-green-100">
+                 <h4 className="font-bold text-green-800 mb-2 text-sm">正确解析{q.correctAnswer && `（答案：${q.correctAnswer}）`}</h4>
+                 <RichText text={q.correctResolution || q.aiAnalysis} className="text-gray-700 text-sm" />
+               </div>
+
+               <details className="bg-white p-4 rounded-xl border border-gray-200" open={!!q.chat?.length}>
+                 <summary className="font-bold text-gray-800 text-sm cursor-pointer flex items-center gap-2">
+                   <MessageCircle size={16} className="text-blue-600" /> 还有疑问？追问 AI
+                 </summary>
+                 <div className="mt-3">
+                   <TutorChat
+                     key={q.id}
+                     question={q}
+                     onChange={chat => saveChat(q.id, chat)}
+                     onPromote={(field, text) => promoteToField(q.id, field, text)}
+                   />
+                 </div>
+               </details>
+
+               {/* Recall Rating -> reschedules the question and moves on */}
+               <div>
+                 <h4 className="font-bold text-gray-800 mb-2 text-sm">这道题你记得怎么样？</h4>
+                 <div className="grid grid-cols-4 gap-2">
+                   {(Object.keys(GRADE_LABELS) as RecallGrade[]).map(grade => {
+                     const preview = scheduleReview(q.schedule || createInitialSchedule(q), grade);
+                     return (
+                       <button
+                         key={grade}
+                         onClick={() => handleNext(q, grade)}
+                         className={`py-2 rounded-lg text-xs font-bold flex flex-col items-center border active:scale-95 transition-transform ${
+                           grade === 'again' ? 'bg-red-50 border-red-200 text-red-600'
+                             : grade === 'hard' ? 'bg-orange-50 border-orange-200 text-orange-600'
+                             : grade === 'good' ? 'bg-blue-50 border-blue-200 text-blue-600'
+                             : 'bg-green-50 border-green-200 text-green-600'
+                         }`}
+                       >
+                         {GRADE_LABELS[grade]}
+                         <span className="text-[10px] font-normal opacity-70 mt-0.5">{formatInterval(preview.interval)}</span>
+                       </button>
+                     );
+                   })}
+                 </div>
+               </div>
+             </div>
+           )}
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-between items-center">
+           <button 
+             disabled={session.currentIndex === 0}
+             onClick={handlePrevious}
+             className="text-gray-600 disabled:opacity-30"
+           >
+             上一题
+           </button>
+           
+           <button 
+             onClick={() => handleNext(q)}
+             className="bg-blue-600 text-white px-6 py-2 rounded-full shadow-lg"
+           >
+             {session.currentIndex < session.items.length - 1 ? '下一题' : '完成'}
+           </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 pb-24 h-full overflow-y-auto bg-gray-50">
+      <header className="mb-6 flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-800">复盘 & 模考</h1>
+        <div className="flex gap-2">
+          <button
+            onClick={() => openPrint(isSearching ? "筛选结果" : filterMode === 'priority' ? "重点题目" : filterMode === 'due' ? "今日待复习" : "错题重做", filteredList)}
+            disabled={filteredList.length === 0}
+            className="px-2 py-1.5 rounded-lg text-sm shadow-sm border bg-white text-gray-600 border-gray-200 active:bg-gray-100 disabled:opacity-40"
+            title="打印当前列表"
+          >
+            <Printer size={14} />
+          </button>
+          <button 
+            onClick={startRandomExam}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm flex items-center gap-2 active:bg-gray-100 border ${
+              filterMode === 'priority' ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white text-gray-600 border-gray-200'
+            }`}
+          >
+            <RefreshCw size={14} /> {isSearching ? '练习筛选结果' : filterMode === 'priority' ? '突击重点' : filterMode === 'due' ? '开始复习' : '随机练习'}
+          </button>
+        </div>
+      </header>
+      
+      {/* Unfinished session from an earlier visit */}
+      {unfinishedSession && (
+        <div className="mb-6 bg-blue-50 border border-blue-100 rounded-xl p-4 flex items-center justify-between">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <RotateCcw size={16} className="text-blue-600" />
+              <h2 className="font-bold text-gray-800 truncate">{unfinishedSession.title}</h2>
+            </div>
+            <p className="text-xs text-blue-600 mt-1">
+              未完成 · 第 {unfinishedSession.currentIndex + 1}/{unfinishedSession.items.length} 题
+            </p>
+          </div>
+          <button
+            onClick={() => resumeSession(unfinishedSession)}
+            className="bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 shrink-0 active:scale-95 transition-transform"
+          >
+            继续练习 <ArrowRight size={12} />
+          </button>
+        </div>
+      )}
+
+      {/* Spaced-repetition Due Queue */}
+      {dueQuestions.length > 0 && (
+        <div className="mb-6 bg-amber-50 border border-amber-100 rounded-xl p-4 flex items-center justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <Clock size={16} className="text-amber-600" />
+              <h2 className="font-bold text-gray-800">今日待复习</h2>
+            </div>
+            <p className="text-xs text-amber-600 mt-1">{dueQuestions.length} 道题已到复习时间</p>
+          </div>
+          <button
+            onClick={startDueReview}
+            className="bg-amber-500 text-white px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 active:scale-95 transition-transform"
+          >
+            开始复习 <ArrowRight size={12} />
+          </button>
+        </div>
+      )}
+
+      {/* Timed Mock Exam Entry */}
+      {questions.length > 0 && (
+        <button
+          onClick={() => setMode('mock')}
+          className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-50 text-blue-600 p-2 rounded-lg"><Clock size={18} /></div>
+            <div className="text-left">
+              <h2 className="font-bold text-gray-800 text-sm">全真模考</h2>
+              <p className="text-xs text-gray-400">按职测/综应试卷结构组卷，限时作答</p>
+            </div>
+          </div>
+          <ChevronRight size={18} className="text-gray-300" />
+        </button>
+      )}
+
+      {questions.length > 0 && (
+        <button
+          onClick={() => openComposer()}
+          className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="bg-purple-50 text-purple-600 p-2 rounded-lg"><Filter size={18} /></div>
+            <div className="text-left">
+              <h2 className="font-bold text-gray-800 text-sm">智能组卷</h2>
+              <p className="text-xs text-gray-400">按题型配额和掌握状态出卷，优先薄弱考点</p>
+            </div>
+          </div>
+          <ChevronRight size={18} className="text-gray-300" />
+        </button>
+      )}
+
+      {variantCount > 0 && (
+        <button
+          onClick={startAllVariants}
+          className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="bg-purple-50 text-purple-600 p-2 rounded-lg"><Brain size={18} /></div>
+            <div className="text-left">
+              <h2 className="font-bold text-gray-800 text-sm">变式训练</h2>
+              <p className="text-xs text-gray-400">{variantCount} 道举一反三题，未做对的优先</p>
+            </div>
+          </div>
+          <ChevronRight size={18} className="text-gray-300" />
+        </button>
+      )}
+
+      <button
+        onClick={() => setMode('taxonomy')}
+        className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+      >
+        <div className="flex items-center gap-3">
+          <div className="bg-green-50 text-green-600 p-2 rounded-lg"><Brain size={18} /></div>
+          <div className="text-left">
+            <h2 className="font-bold text-gray-800 text-sm">知识树</h2>
+            <p className="text-xs text-gray-400">按考点浏览错题，合并或重命名考点</p>
+          </div>
+        </div>
+        <ChevronRight size={18} className="text-gray-300" />
+      </button>
+
+      <button
+        onClick={() => setMode('causes')}
+        className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+      >
+        <div className="flex items-center gap-3">
+          <div className="bg-indigo-50 text-indigo-600 p-2 rounded-lg"><Lightbulb size={18} /></div>
+          <div className="text-left">
+            <h2 className="font-bold text-gray-800 text-sm">错因分布</h2>
+            <p className="text-xs text-gray-400">按错因标签归集错题，针对性专练</p>
+          </div>
+        </div>
+        <ChevronRight size={18} className="text-gray-300" />
+      </button>
+
+      {reports.length > 0 && (
+        <button
+          onClick={() => setMode('reports')}
+          className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-50 text-blue-600 p-2 rounded-lg"><FileText size={18} /></div>
+            <div className="text-left">
+              <h2 className="font-bold text-gray-800 text-sm">半月报告</h2>
+              <p className="text-xs text-gray-400">已生成 {reports.length} 份，对比上期并给出两周计划</p>
+            </div>
+          </div>
+          <ChevronRight size={18} className="text-gray-300" />
+        </button>
+      )}
+
+      {sessions.length > 0 && (
+        <button
+          onClick={() => setMode('history')}
+          className="w-full mb-6 bg-white border border-gray-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:bg-gray-50"
+        >
+          <div className="flex items-center gap-3">
+            <div className="bg-amber-50 text-amber-600 p-2 rounded-lg"><Calendar size={18} /></div>
+            <div className="text-left">
+              <h2 className="font-bold text-gray-800 text-sm">练习记录</h2>
+              <p className="text-xs text-gray-400">共 {sessions.length} 次练习，可继续未完成的或只重做错题</p>
+            </div>
+          </div>
+          <ChevronRight size={18} className="text-gray-300" />
+        </button>
+      )}
+
+      {/* Regular Exam Section - Only show in All mode */}
+      {filterMode === 'all' && periods.length > 0 && (
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-3">
+             <Calendar size={18} className="text-blue-600" />
+             <h2 className="font-bold text-gray-800">定期模考 (自动生成)</h2>
+          </div>
+          <div className="flex gap-4 overflow-x-auto pb-4 snap-x">
+             {periods.map(period => {
+               const count = periodGroups[period].length;
+               return (
+                 <div key={period} className="flex-shrink-0 w-64 snap-start bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl p-4 text-white shadow-lg relative overflow-hidden group">
+                    <div className="absolute top-0 right-0 p-3 opacity-10">
+                       <FileText size={64} />
+                    </div>
+                    <p className="text-blue-100 text-xs font-medium mb-1">半月错题集训</p>
+                    <h3 className="text-xl font-bold mb-4">{period}</h3>
+                    
+                    <div className="flex justify-between items-end">
+                       <div>
+                          <p className="text-2xl font-bold">{count}</p>
+                          <p className="text-xs text-blue-200">待重做题目</p>
+                       </div>
+                       <div className="flex gap-2">
+                         <button
+                           onClick={() => openReport(period, 'list')}
+                           className="bg-white/20 text-white px-2 py-1.5 rounded-lg text-xs font-bold active:scale-95 transition-transform"
+                           title="半月报告"
+                         >
+                           报告
+                         </button>
+                         <button
+                           onClick={() => openPrint(`${period} 错题重做`, periodGroups[period])}
+                           className="bg-white/20 text-white px-2 py-1.5 rounded-lg active:scale-95 transition-transform"
+                           title="打印试卷"
+                         >
+                           <Printer size={12} />
+                         </button>
+                         <button 
+                           onClick={() => startPeriodExam(period, periodGroups[period])}
+                           className="bg-white text-blue-600 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 active:scale-95 transition-transform"
+                         >
+                           开始考试 <ArrowRight size={12} />
+                         </button>
+                       </div>
+                    </div>
+                 </div>
+               );
+             })}
+          </div>
+        </div>
+      )}
+
+      {/* Filter Tabs */}
+      <div className="flex items-center gap-4 mb-4 border-b border-gray-200 pb-2">
+         <button 
+           onClick={() => setFilterMode('all')}
+           className={`text-sm font-bold pb-1 relative ${filterMode === 'all' ? 'text-gray-800' : 'text-gray-400'}`}
+         >
+           全部题目
+           {filterMode === 'all' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full" />}
+         </button>
+         <button 
+           onClick={() => setFilterMode('priority')}
+           className={`text-sm font-bold pb-1 relative flex items-center gap-1 ${filterMode === 'priority' ? 'text-red-600' : 'text-gray-400'}`}
+         >
+           重点复习 (需加强)
+           {filterMode === 'priority' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-red-600 rounded-full" />}
+           <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full text-[10px]">
+             {questions.filter(q => q.masteryStatus === 'review_needed').length}
+           </span>
+         </button>
+         <button 
+           onClick={() => setFilterMode('due')}
+           className={`text-sm font-bold pb-1 relative flex items-center gap-1 ${filterMode === 'due' ? 'text-amber-600' : 'text-gray-400'}`}
+         >
+           今日待复习
+           {filterMode === 'due' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-amber-500 rounded-full" />}
+           <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full text-[10px]">
+             {dueQuestions.length}
+           </span>
+         </button>
+      </div>
+
+      {/* Search & Faceted Filters */}
+      <div className="mb-4">
+        <div className="flex gap-2">
+          <div className="flex-1 flex items-center gap-2 bg-white border border-gray-200 rounded-lg px-3 py-2">
+            <Search size={16} className="text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="搜索题干、解析、思路、错因..."
+              className="flex-1 text-sm outline-none bg-transparent"
+            />
+            {query && (
+              <button onClick={() => setQuery('')} className="text-gray-300"><XCircle size={16} /></button>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`px-3 rounded-lg border flex items-center ${hasActiveFilters(filters) ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-gray-200 text-gray-500'}`}
+          >
+            <Filter size={16} />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="mt-2 bg-white border border-gray-200 rounded-lg p-3 grid grid-cols-2 gap-3 text-sm">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">科目</label>
+              <select
+                value={filters.subject}
+                onChange={e => setFilters({ ...filters, subject: e.target.value as SearchFilters['subject'], category: '', subCategory: '' })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              >
+                <option value="">全部</option>
+                <option value="职测">职测</option>
+                <option value="综应">综应</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">大类</label>
+              <select
+                value={filters.category}
+                onChange={e => setFilters({ ...filters, category: e.target.value as SearchFilters['category'], subCategory: '' })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              >
+                <option value="">全部</option>
+                {(filters.subject ? CATEGORIES[filters.subject] : ALL_CATEGORIES).map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">细分题型</label>
+              <select
+                value={filters.subCategory}
+                onChange={e => setFilters({ ...filters, subCategory: e.target.value })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              >
+                <option value="">全部</option>
+                {subCategoryOptions.map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">掌握状态</label>
+              <select
+                value={filters.mastery}
+                onChange={e => setFilters({ ...filters, mastery: e.target.value as SearchFilters['mastery'] })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              >
+                <option value="all">全部</option>
+                <option value="review_needed">需加强</option>
+                <option value="mastered">已掌握</option>
+                <option value="unmarked">未标记</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">录入起始</label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={e => setFilters({ ...filters, from: e.target.value })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">录入截止</label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={e => setFilters({ ...filters, to: e.target.value })}
+                className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2"
+              />
+            </div>
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="col-span-2 text-xs text-gray-500 py-1"
+            >
+              清除筛选
+            </button>
+          </div>
+        )}
+
+        {isSearching && (
+          <p className="text-xs text-gray-400 mt-2">找到 {filteredList.length} 道题，点击右上角按钮可用这些题组卷练习</p>
+        )}
+      </div>
+
+      {filteredList.length === 0 ? (
+        <div className="text-center text-gray-400 mt-10">
+          <BookOpen size={48} className="mx-auto mb-4 opacity-20" />
+          <p>{isSearching ? '没有符合条件的题目' : filterMode === 'priority' ? '太棒了！暂无需要重点复习的题目' : filterMode === 'due' ? '今天的复习任务已完成' : '还没有录入任何错题'}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredList.map((q) => (
+            <div
+              key={q.id}
+              onClick={() => {
+                setSelectedId(q.id);
+                setMode('detail');
+              }}
+              className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex gap-4 relative cursor-pointer active:bg-gray-50"
+            >
+              <img src={getPreviewUrl(q)} className="w-20 h-20 object-cover rounded-lg bg-gray-100 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between items-start">
+                   <div className="flex gap-1 flex-wrap">
+                      <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{q.category}</span>
+                      {q.rootCause && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">已诊断</span>}
+                   </div>
+                   
+                   {/* Display Last Reviewed At if available, otherwise creation date */}
+                   <span className="text-xs text-gray-400 flex items-center gap-1">
+                     {q.lastReviewedAt ? (
+                       <>
+                         <Clock size={10} /> 上次: {formatDate(q.lastReviewedAt)}
+                       </>
+                     ) : (
+                       <span>录入: {formatDate(q.createdAt)}</span>
+                     )}
+                   </span>
+                </div>
+                
+                <h3 className="font-bold text-gray-800 mt-2 truncate text-sm">{q.subCategory || "未分类题型"}</h3>
+                <p className="text-xs text-gray-500 mt-1 line-clamp-2">{q.correctResolution ? q.correctResolution.substring(0, 50) + "..." : "暂无解析"}</p>
+                
+                {/* Stats Footer in List Card */}
+                <div className="mt-3 flex items-center gap-3 text-xs text-gray-400 border-t border-gray-50 pt-2">
+                   <div className="flex items-center gap-1">
+                      <RotateCcw size={10} />
+                      <span>复盘 {q.reviewCount || 0} 次</span>
+                   </div>
+                   {q.masteryStatus === 'mastered' && (
+                     <span className="text-green-600 font-medium">已掌握</span>
+                   )}
+                   {q.masteryStatus === 'review_needed' && (
+                     <span className="text-red-500 font-medium">需加强</span>
+                   )}
+                   {q.schedule && (
+                     <span className="ml-auto">{isDue(q) ? '今日待复习' : `下次: ${formatDate(q.schedule.dueAt)}`}</span>
+                   )}
+                </div>
+              </div>
+              
+              {/* Mastery Indicator Icon */}
+              {q.masteryStatus === 'review_needed' && (
+                <div className="absolute top-4 right-4 text-red-500 bg-red-50 p-1.5 rounded-full shadow-sm" title="需加强">
+                  <AlertCircle size={14} />
+                </div>
+              )}
+              {q.masteryStatus === 'mastered' && (
+                <div className="absolute top-4 right-4 text-green-500 bg-green-50 p-1.5 rounded-full shadow-sm" title="已掌握">
+                  <CheckCircle size={14} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 5. Question Detail / Edit
+const VARIANT_COUNTS = [3, 5, 8];
+
+const QuestionDetail = ({ question, onSave, onVariantsChange, onChatChange, onDelete, onPracticeVariants, onPracticeWriting, onBack }: {
+  question: Question,
+  onSave: (q: Question) => void,
+  onVariantsChange: (change: (variants: VariantQuestion[]) => VariantQuestion[]) => void, // Persists without leaving
+  onChatChange: (chat: ChatMessage[]) => void, // Saved right away like variants
+  onDelete: (q: Question) => void,
+  onPracticeVariants: (q: Question) => void,
+  onPracticeWriting: (q: Question) => void,
+  onBack: () => void,
+}) => {
+  const [draft, setDraft] = useState<Question>(question);
+  const [isDeepAnalyzing, setIsDeepAnalyzing] = useState(false);
+  const [isGeneratingVariants, setIsGeneratingVariants] = useState(false);
+  const [variantCount, setVariantCount] = useState(VARIANT_COUNTS[0]);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+  const update = (patch: Partial<Question>) => setDraft(prev => ({ ...prev, ...patch }));
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(question);
+  const variants = draft.variants || [];
+  const writingAttempts = question.writingAttempts || [];
+
+  // Variants are saved right away, independent of unsaved edits to the other fields
+  const saveVariants = (change: (variants: VariantQuestion[]) => VariantQuestion[]) => {
+    setDraft(prev => ({ ...prev, variants: change(prev.variants || []) }));
+    onVariantsChange(change);
+  };
+
+  const handleGenerateVariants = async () => {
+    setIsGeneratingVariants(true);
+    setAnalysisError(null);
+
+    try {
+      // The current (possibly unsaved) diagnosis is what the variants should target
+      const generated = await getAnalysisService().generateVariants({
+        ...draft,
+        correctAnswer: draft.correctAnswer || '',
+        rootCause: draft.rootCause || '',
+        suggestion: draft.suggestion || '',
+        causeTags: draft.causeTags || [],
+        images: await toImageInputs(draft.images),
+      }, variantCount);
+      saveVariants(prev => [...prev, ...generated]);
+    } catch (e) {
+      console.error(e);
+      setAnalysisError(`变式题生成失败：${describeAnalysisError(e)}`);
+    } finally {
+      setIsGeneratingVariants(false);
+    }
+  };
+
+  const handleDeepAnalysis = async () => {
+    if (!draft.myThinking && !draft.correctResolution) {
+      setAnalysisError("请先输入‘我的做题思路’或‘正确解析’，AI才能分析深层错因。");
+      return;
+    }
+
+    setIsDeepAnalyzing(true);
+    setAnalysisError(null);
+
+    try {
+      const result = await getAnalysisService().diagnoseRootCause({ ...draft, images: await toImageInputs(draft.images) });
+      const patch: Partial<Question> = {};
+      if (result.analysis) {
+        patch.rootCause = result.analysis;
+        patch.suggestion = result.suggestion;
+        patch.causeTags = result.causeTags;
+      }
+      if (result.refinedSubCategory) patch.subCategory = result.refinedSubCategory;
+      update(patch);
+    } catch (e) {
+      console.error(e);
+      setAnalysisError(`深度分析失败：${describeAnalysisError(e)}`);
+    } finally {
+      setIsDeepAnalyzing(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (isDirty && !confirm("有未保存的修改，确定放弃吗？")) return;
+    onBack();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={handleBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">题目详情</span>
+        <button 
+          onClick={() => onSave(markMastery({ ...draft, masteryStatus: question.masteryStatus ?? null }, draft.masteryStatus ?? null))}
+          disabled={!isDirty}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1 disabled:opacity-40"
+        >
+          <Save size={14} /> 保存
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        <div className="bg-white p-2 rounded-xl border shadow-sm space-y-3">
+           <ImageGallery images={draft.images} imageClassName="w-full h-auto rounded-lg max-h-60 object-contain bg-black" />
+           <ImageListEditor images={draft.images} onChange={images => update({ images })} />
+        </div>
+
+        {analysisError && (
+          <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">
+            {analysisError}
+          </div>
+        )}
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-4">
+          <div className="flex items-center gap-2 mb-2">
+             <FileText size={18} className="text-blue-600"/>
+             <h3 className="font-bold text-gray-800">题型归类</h3>
+          </div>
+          <ClassificationFields
+            subject={draft.subject}
+            category={draft.category}
+            subCategory={draft.subCategory}
+            onSubjectChange={subject => update({ subject })}
+            onCategoryChange={category => update({ category })}
+            onSubCategoryChange={subCategory => update({ subCategory })}
+          />
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">题干文字</label>
+            <textarea 
+              value={draft.questionText}
+              onChange={e => update({ questionText: e.target.value })}
+              className="w-full h-20 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+            />
+          </div>
+        </div>
 
-        {/* User Thinking */}
         <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
           <div className="flex items-center gap-2">
              <PenTool size={18} className="text-orange-500"/>
              <h3 className="font-bold text-gray-800">我的做题思路</h3>
           </div>
-          <p className="text-xs text-gray-400">当时是怎么想的？为什么选错了？</p>
-          <textarea 
-            value={myThinking}
-            onChange={e => setMyThinking(e.target.value)}
-            className="w-full h-24 bg-orange-50 border border-orange-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-orange-200 outline-none"
-            placeholder="请在此输入你当时的思路，AI将帮助你分析错误根源..."
-          />
+          <textarea 
+            value={draft.myThinking}
+            onChange={e => update({ myThinking: e.target.value })}
+            className="w-full h-24 bg-orange-50 border border-orange-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-orange-200 outline-none"
+          />
+        </div>
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
+          <div className="flex items-center gap-2">
+             <CheckCircle size={18} className="text-green-600"/>
+             <h3 className="font-bold text-gray-800">答案解析</h3>
+          </div>
+          <CorrectAnswerInput category={draft.category} value={draft.correctAnswer || ''} onChange={correctAnswer => update({ correctAnswer })} />
+          <RichTextEditor
+            value={draft.correctResolution}
+            onChange={correctResolution => update({ correctResolution })}
+            className="w-full h-32 bg-green-50 border border-green-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-green-200 outline-none"
+          />
+        </div>
+
+        <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-indigo-800">
+              <Lightbulb size={18} />
+              <h3 className="font-bold">错因诊断</h3>
+            </div>
+            <button
+              onClick={handleDeepAnalysis}
+              disabled={isDeepAnalyzing}
+              className="text-xs text-indigo-600 font-medium flex items-center gap-1 disabled:opacity-50"
+            >
+              <RefreshCw size={12} className={isDeepAnalyzing ? 'animate-spin' : ''} />
+              {isDeepAnalyzing ? '诊断中...' : '重新分析'}
+            </button>
+          </div>
+          <CauseTagPicker value={draft.causeTags || []} onChange={causeTags => update({ causeTags })} />
+          <RichTextEditor
+            value={draft.rootCause || ''}
+            onChange={rootCause => update({ rootCause })}
+            placeholder="暂无诊断，可点击“重新分析”生成"
+            className="w-full h-32 bg-white/60 border border-indigo-100 rounded-lg p-3 text-sm text-gray-700 focus:ring-2 focus:ring-indigo-200 outline-none"
+          />
+          <textarea 
+            value={draft.suggestion || ''}
+            onChange={e => update({ suggestion: e.target.value })}
+            placeholder="改进方案"
+            className="w-full h-24 bg-white/60 border border-indigo-100 rounded-lg p-3 text-sm text-gray-700 focus:ring-2 focus:ring-indigo-200 outline-none"
+          />
+
+          <div className="flex gap-2 pt-2 border-t border-indigo-100">
+            {([['review_needed', '需加强'], [null, '未标记'], ['mastered', '已掌握']] as [MasteryStatus, string][]).map(([status, label]) => (
+              <button 
+                key={label}
+                onClick={() => update({ masteryStatus: status })}
+                className={`flex-1 py-2 rounded-lg text-xs font-bold border transition-colors ${
+                  (draft.masteryStatus ?? null) === status
+                    ? status === 'review_needed' ? 'bg-red-50 border-red-200 text-red-600'
+                      : status === 'mastered' ? 'bg-green-50 border-green-200 text-green-600'
+                      : 'bg-gray-100 border-gray-200 text-gray-600'
+                    : 'bg-white border-transparent text-gray-400 hover:bg-gray-50'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+          <div className="flex items-center gap-2">
+            <MessageCircle size={18} className="text-blue-600" />
+            <h3 className="font-bold text-gray-800">追问 AI</h3>
+          </div>
+          <p className="text-xs text-gray-400">AI 会结合题目图片、解析和错因诊断回答；好的回答可以写入解析或错因（保存后生效）。</p>
+          <TutorChat
+            question={draft}
+            onChange={chat => {
+              update({ chat });
+              onChatChange(chat);
+            }}
+            onPromote={(field, text) => setDraft(prev => ({ ...prev, [field]: appendText(prev[field], text) }))}
+          />
+        </div>
+
+        {draft.subject === '职测' && (
+          <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Brain size={18} className="text-purple-600" />
+                <h3 className="font-bold text-gray-800">举一反三</h3>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={variantCount}
+                  onChange={e => setVariantCount(Number(e.target.value))}
+                  className="bg-gray-50 border border-gray-200 rounded-lg px-1 py-1 text-xs"
+                >
+                  {VARIANT_COUNTS.map(n => <option key={n} value={n}>{n} 道</option>)}
+                </select>
+                <button
+                  onClick={handleGenerateVariants}
+                  disabled={isGeneratingVariants}
+                  className="text-xs text-purple-600 font-medium flex items-center gap-1 disabled:opacity-50"
+                >
+                  <RefreshCw size={12} className={isGeneratingVariants ? 'animate-spin' : ''} />
+                  {isGeneratingVariants ? '生成中...' : '生成变式题'}
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">按同一考点和错因诊断出新题，检验是否真正掌握而不是记住了答案。</p>
+            {variants.length > 0 && (
+              <>
+                <ul className="divide-y divide-gray-50 text-xs">
+                  {variants.map((v, i) => {
+                    const attempts = v.attempts || [];
+                    const last = attempts[attempts.length - 1];
+                    return (
+                      <li key={v.id} className="flex items-center gap-2 py-2">
+                        <span className="w-5 text-gray-400">{i + 1}</span>
+                        <span className="flex-1 truncate text-gray-700">{v.stem}</span>
+                        {last && (last.correct
+                          ? <CheckCircle size={14} className="text-green-600 shrink-0" />
+                          : <XCircle size={14} className="text-red-500 shrink-0" />)}
+                        <button
+                          onClick={() => saveVariants(prev => prev.filter(x => x.id !== v.id))}
+                          className="text-gray-300 hover:text-red-500"
+                          title="删除"
+                        >
+                          <Trash2 size={12} />
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <button
+                  onClick={() => {
+                    if (isDirty && !confirm("有未保存的修改，确定放弃吗？")) return;
+                    onPracticeVariants({ ...question, variants });
+                  }}
+                  className="w-full py-2 rounded-lg text-sm font-bold bg-purple-50 text-purple-600 flex items-center justify-center gap-1"
+                >
+                  开始变式训练 <ArrowRight size={14} />
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {isWritingQuestion(draft) && (
+          <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+            <div className="flex items-center gap-2">
+              <PenTool size={18} className="text-teal-600" />
+              <h3 className="font-bold text-gray-800">写作练习</h3>
+            </div>
+            {writingAttempts.length > 0 ? (
+              <p className="text-xs text-gray-500">
+                已作答 {writingAttempts.length} 次 · 最近 {getAttemptPercent(writingAttempts[writingAttempts.length - 1])}%
+                · 最好 {Math.max(...writingAttempts.map(getAttemptPercent))}%
+              </p>
+            ) : (
+              <p className="text-xs text-gray-400">限时写出完整答案，AI 按评分标准逐项打分并对照参考答案指出差距。</p>
+            )}
+            <button
+              onClick={() => {
+                if (isDirty && !confirm("有未保存的修改，确定放弃吗？")) return;
+                onPracticeWriting(question);
+              }}
+              className="w-full py-2 rounded-lg text-sm font-bold bg-teal-50 text-teal-700 flex items-center justify-center gap-1"
+            >
+              {writingAttempts.length > 0 ? '再写一次' : '开始作答'} <ArrowRight size={14} />
+            </button>
+          </div>
+        )}
+
+        {draft.attempts && draft.attempts.length > 0 && (
+          <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
+            <h3 className="font-bold text-gray-800 text-sm">作答记录</h3>
+            <ul className="divide-y divide-gray-50 text-xs">
+              {[...draft.attempts].reverse().map(a => (
+                <li key={a.answeredAt} className="flex items-center justify-between py-2">
+                  <span className="text-gray-400">{new Date(a.answeredAt).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  <span className="text-gray-700">答 {a.answer}</span>
+                  <span className="text-gray-400">{formatDuration(a.timeSpentMs)}</span>
+                  {a.correct
+                    ? <CheckCircle size={14} className="text-green-600" />
+                    : <XCircle size={14} className="text-red-500" />}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-400 space-y-1">
+          <p>录入于 {new Date(draft.createdAt).toLocaleString('zh-CN')} · 复盘 {draft.reviewCount || 0} 次</p>
+          {draft.schedule && <p>下次复习：{formatDate(draft.schedule.dueAt)}</p>}
+        </div>
+
+        <button
+          onClick={() => onDelete(question)}
+          className="w-full py-3 rounded-xl border border-red-200 text-red-600 font-medium flex items-center justify-center gap-2 bg-white"
+        >
+          <Trash2 size={16} /> 删除这道题
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 6. Settings View
+const SettingsView = () => {
+  const [saved, setSaved] = useState<AppSettings>(loadSettings);
+  const [draft, setDraft] = useState<AppSettings>(saved);
+  const [showKey, setShowKey] = useState(false);
+  const [testStatus, setTestStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isCustomModel, setIsCustomModel] = useState(!!saved.model && !MODEL_OPTIONS.includes(saved.model));
+
+  const update = (patch: Partial<AppSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTestStatus(null);
+  };
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const handleSave = () => {
+    saveSettings(draft);
+    setSaved(draft);
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestStatus(null);
+    try {
+      await testConnection(draft);
+      setTestStatus({ ok: true, message: '连接成功，Key 和模型可用。' });
+    } catch (err) {
+      console.error(err);
+      setTestStatus({ ok: false, message: describeAnalysisError(classifyProviderError(err)) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const rubric = draft.writingRubric.length > 0 ? draft.writingRubric : DEFAULT_WRITING_RUBRIC;
+  // An edit that lands back on the default goes back to tracking it
+  const updateRubric = (next: RubricCriterion[]) =>
+    update({ writingRubric: JSON.stringify(next) === JSON.stringify(DEFAULT_WRITING_RUBRIC) ? [] : next });
+  const patchCriterion = (index: number, patch: Partial<RubricCriterion>) =>
+    updateRubric(rubric.map((c, i) => i === index ? { ...c, ...patch } : c));
+
+  const promptEditor = (field: 'classifyPrompt' | 'rootCausePrompt' | 'variantPrompt' | 'tutorPrompt' | 'reportPrompt' | 'writingPrompt', title: string, fallback: string, hint: string) => (
+    <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-gray-800 text-sm">{title}</h3>
+        <button
+          onClick={() => update({ [field]: '' })}
+          disabled={!draft[field]}
+          className="text-xs text-blue-600 flex items-center gap-1 disabled:text-gray-300"
+        >
+          <RotateCcw size={12} /> 恢复默认
+        </button>
+      </div>
+      <p className="text-xs text-gray-400">{hint}</p>
+      <textarea
+        value={draft[field] || fallback.trim()}
+        onChange={e => update({ [field]: e.target.value.trim() === fallback.trim() ? '' : e.target.value })}
+        className="w-full h-48 bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs font-mono"
+      />
+      {!draft[field] && <p className="text-[10px] text-gray-400">当前使用默认模板</p>}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <span className="font-bold text-gray-800">设置</span>
+        <button 
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1 disabled:opacity-40"
+        >
+          <Save size={14} /> 保存
+        </button>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {process.env.ANALYSIS_PROVIDER === 'mock' && (
+          <div className="bg-amber-50 text-amber-700 p-3 rounded-lg text-sm">当前为离线模拟模式，AI 结果为固定示例。</div>
+        )}
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-4">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">Gemini API Key（仅保存在本机）</label>
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={e => update({ apiKey: e.target.value.trim() })}
+                placeholder={process.env.API_KEY ? '留空则使用内置 Key' : '请输入你的 API Key'}
+                className="flex-1 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+              />
+              <button onClick={() => setShowKey(!showKey)} className="px-2 text-gray-400">
+                {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">模型</label>
+            <select
+              value={isCustomModel ? 'custom' : draft.model || DEFAULT_MODEL}
+              onChange={e => {
+                setIsCustomModel(e.target.value === 'custom');
+                update({ model: e.target.value === 'custom' || e.target.value === DEFAULT_MODEL ? '' : e.target.value });
+              }}
+              className="w-full bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+            >
+              {MODEL_OPTIONS.map(m => (
+                <option key={m} value={m}>{m}{m === DEFAULT_MODEL ? '（默认）' : ''}</option>
+              ))}
+              <option value="custom">自定义...</option>
+            </select>
+            {isCustomModel && (
+              <input
+                type="text"
+                value={draft.model}
+                onChange={e => update({ model: e.target.value.trim() })}
+                placeholder="输入模型名称"
+                className="w-full mt-2 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+              />
+            )}
+          </div>
+
+          <button
+            onClick={handleTest}
+            disabled={isTesting}
+            className="w-full py-2 rounded-lg border border-blue-200 text-blue-600 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw size={14} className={isTesting ? 'animate-spin' : ''} /> {isTesting ? '测试中...' : '测试连接'}
+          </button>
+          {testStatus && (
+            <p className={`text-xs ${testStatus.ok ? 'text-green-600' : 'text-red-500'}`}>{testStatus.message}</p>
+          )}
+        </div>
+
+        {promptEditor('classifyPrompt', '识别分类提示词', DEFAULT_PROMPTS.classify, `上传截图后用于识别题型、提取题干和生成解析。需要求模型返回 JSON。可用变量：${CLASSIFY_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+        {promptEditor('rootCausePrompt', '深度归因提示词', DEFAULT_PROMPTS.rootCause,
+          `可用变量：${ROOT_CAUSE_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+        {promptEditor('variantPrompt', '举一反三提示词', DEFAULT_PROMPTS.variants,
+          `根据错因诊断生成变式题。需返回 {"variants": [...]}。可用变量：${VARIANT_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+        {promptEditor('tutorPrompt', '追问辅导提示词', DEFAULT_PROMPTS.tutor,
+          `题目页“追问 AI”使用，模型直接返回文字。可用变量：${TUTOR_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+        {promptEditor('reportPrompt', '半月报告提示词', DEFAULT_PROMPTS.report,
+          `生成半月复盘报告，只发送文字数据。需返回 JSON。可用变量：${REPORT_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+        {promptEditor('writingPrompt', '综应评分提示词', DEFAULT_PROMPTS.writing,
+          `写作练习按下方评分标准打分。需返回 JSON，scores 中的 criterion 须与评分项名称一致。可用变量：${WRITING_PROMPT_VARIABLES.map(v => `{{${v}}}`).join(' ')}`)}
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-bold text-gray-800 text-sm">综应评分标准</h3>
+            <button
+              onClick={() => update({ writingRubric: [] })}
+              disabled={draft.writingRubric.length === 0}
+              className="text-xs text-blue-600 flex items-center gap-1 disabled:text-gray-300"
+            >
+              <RotateCcw size={12} /> 恢复默认
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            每项的说明会原样发给 AI。满分合计 {rubric.reduce((sum, c) => sum + (c.maxScore || 0), 0)} 分，历史记录按百分比比较。
+          </p>
+          {rubric.map((c, i) => (
+            <div key={i} className="border border-gray-100 rounded-lg p-2 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={c.name}
+                  onChange={e => patchCriterion(i, { name: e.target.value })}
+                  placeholder="评分项"
+                  className="flex-1 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-sm"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={c.maxScore || ''}
+                  onChange={e => patchCriterion(i, { maxScore: Math.max(0, Math.round(Number(e.target.value))) })}
+                  className="w-16 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-sm"
+                />
+                <span className="text-xs text-gray-400">分</span>
+                <button onClick={() => updateRubric(rubric.filter((_, j) => j !== i))} className="text-gray-300 hover:text-red-500" title="删除">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <textarea
+                value={c.description}
+                onChange={e => patchCriterion(i, { description: e.target.value })}
+                placeholder="评分说明"
+                className="w-full h-14 bg-gray-50 border border-gray-200 rounded-lg p-2 text-xs"
+              />
+            </div>
+          ))}
+          <button
+            onClick={() => updateRubric([...rubric, { name: '', maxScore: 10, description: '' }])}
+            className="w-full py-2 rounded-lg border border-dashed border-gray-300 text-gray-500 text-xs flex items-center justify-center gap-1"
+          >
+            <Plus size={12} /> 添加评分项
+          </button>
+          {draft.writingRubric.length === 0 && <p className="text-[10px] text-gray-400">当前使用默认评分标准</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 7. Mock Exam (timed full paper)
+const MockExam = ({ questions, onRecordAttempts, onRecordWriting, onExit }: {
+  questions: Question[],
+  onRecordAttempts: (updated: Question[]) => void,
+  onRecordWriting: (questionId: string, attempt: WritingAttempt) => void,
+  onExit: () => void,
+}) => {
+  const [stage, setStage] = useState<'setup' | 'running' | 'report'>('setup');
+  const [templateId, setTemplateId] = useState(MOCK_TEMPLATES[0].id);
+  const [paper, setPaper] = useState<MockPaperSection[]>([]);
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [timings, setTimings] = useState<Record<string, number>>({});
+  const [endsAt, setEndsAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [showGrid, setShowGrid] = useState(false);
+  const [writingScores, setWritingScores] = useState<Record<string, WritingAttempt>>({});
+  const [scoringId, setScoringId] = useState<string | null>(null);
+  const [scoringError, setScoringError] = useState<string | null>(null);
+  const enteredAt = useRef(Date.now());
+
+  const template = MOCK_TEMPLATES.find(t => t.id === templateId)!;
+  const preview = useMemo(() => buildMockPaper(template, questions), [template, questions]);
+  const flat = paper.flatMap(p => p.questions);
+  const current = flat[index];
+  const remaining = endsAt - now;
+
+  // Adds the time spent on the current question before moving away from it
+  const flushTiming = () => {
+    if (!current) return timings;
+    const spent = Date.now() - enteredAt.current;
+    enteredAt.current = Date.now();
+    const next = { ...timings, [current.id]: (timings[current.id] || 0) + spent };
+    setTimings(next);
+    return next;
+  };
+
+  const goTo = (i: number) => {
+    flushTiming();
+    setIndex(i);
+    setShowGrid(false);
+  };
+
+  const handleStart = () => {
+    const built = buildMockPaper(template, questions).filter(p => p.questions.length > 0);
+    const totalMinutes = built.reduce((sum, p) => sum + (p.section.minutes * p.questions.length) / p.section.count, 0);
+    setPaper(built);
+    setAnswers({});
+    setTimings({});
+    setWritingScores({});
+    setIndex(0);
+    setEndsAt(Date.now() + Math.round(totalMinutes * 60 * 1000));
+    enteredAt.current = Date.now();
+    setStage('running');
+  };
+
+  const handleSubmit = (auto = false) => {
+    const unanswered = flat.filter(q => !answers[q.id]?.trim()).length;
+    if (!auto && unanswered > 0 && !confirm(`还有 ${unanswered} 道题未作答，确定交卷吗？`)) return;
+    const finalTimings = flushTiming();
+
+    // Each answered, gradable question becomes part of its attempt history
+    const answeredAt = Date.now();
+    const updated = flat
+      .filter(q => q.correctAnswer && answers[q.id] && !isWritingQuestion(q))
+      .map(q => ({
+        ...q,
+        attempts: [...(q.attempts || []), {
+          answer: answers[q.id],
+          correct: gradeAnswer(q.correctAnswer!, answers[q.id]),
+          timeSpentMs: finalTimings[q.id] || 0,
+          answeredAt,
+        }],
+      }));
+    if (updated.length > 0) onRecordAttempts(updated);
+    setStage('report');
+  };
+
+  useEffect(() => {
+    if (stage !== 'running') return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [stage]);
+
+  useEffect(() => {
+    if (stage === 'running' && remaining <= 0) {
+      alert("考试时间到，已自动交卷。");
+      handleSubmit(true);
+    }
+  }, [stage, remaining]);
+
+  const handleExit = () => {
+    if (stage === 'running' && !confirm("退出将放弃本次模考，确定吗？")) return;
+    onExit();
+  };
+
+  const handleScoreWriting = async ({ question, answer, timeSpentMs }: MockQuestionResult) => {
+    setScoringId(question.id);
+    setScoringError(null);
+    try {
+      const result = await getAnalysisService().scoreWriting({
+        ...question,
+        answer,
+        timeSpentMs,
+        images: await toImageInputs(question.images),
+      });
+      const attempt: WritingAttempt = { id: createImageId(), text: answer, wordCount: countWords(answer), timeSpentMs, submittedAt: Date.now(), ...result };
+      onRecordWriting(question.id, attempt);
+      setWritingScores(prev => ({ ...prev, [question.id]: attempt }));
+    } catch (e) {
+      console.error(e);
+      setScoringError(`评分失败：${describeAnalysisError(e)}`);
+    } finally {
+      setScoringId(null);
+    }
+  };
+
+  if (stage === 'setup') {
+    return (
+      <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+        <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+          <button onClick={onExit} className="text-gray-500 text-sm">返回</button>
+          <span className="font-bold text-gray-800">全真模考</span>
+          <span className="w-8" />
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {MOCK_TEMPLATES.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setTemplateId(t.id)}
+                className={`py-2 rounded-lg text-xs font-bold border ${templateId === t.id ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-200 text-gray-600'}`}
+              >
+                {t.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+            {preview.map(({ section, questions: picked }) => (
+              <div key={section.category} className="flex items-center justify-between p-3 text-sm">
+                <span className="text-gray-700">{section.category}</span>
+                <span className={picked.length < section.count ? 'text-orange-500' : 'text-gray-500'}>
+                  {picked.length}/{section.count} 题 · {section.minutes} 分钟
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400">
+            题目从错题库中抽取（优先“需加强”）。错题不足时按实际题数等比例缩短时间。
+          </p>
+
+          <button
+            onClick={handleStart}
+            disabled={preview.every(p => p.questions.length === 0)}
+            className="w-full py-3 rounded-xl bg-blue-600 text-white font-bold disabled:opacity-40 flex items-center justify-center gap-2"
+          >
+            <Clock size={16} /> 开始计时
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (stage === 'report') {
+    const graded = gradeMockPaper(paper, answers, timings);
+    const all = graded.flatMap(g => g.results);
+    const gradable = all.filter(r => r.correct !== null);
+    const correct = gradable.filter(r => r.correct).length;
+    const outliers = all.filter(isTimeOutlier).sort((a, b) => b.timeSpentMs / b.budgetMs - a.timeSpentMs / a.budgetMs);
+    const totalSpent = all.reduce((sum, r) => sum + r.timeSpentMs, 0);
+    const answered = all.filter(r => r.answer.trim()).length;
+
+    return (
+      <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+        <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+          <button onClick={onExit} className="text-gray-500 text-sm">完成</button>
+          <span className="font-bold text-gray-800">成绩报告</span>
+          <span className="w-8" />
+        </div>
+        <div className="p-4 space-y-6">
+          <div className="bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl p-4 text-white shadow-lg">
+            <p className="text-blue-100 text-xs">{template.name}</p>
+            {gradable.length > 0 ? (
+              <>
+                <p className="text-3xl font-bold mt-1">{correct}/{gradable.length}</p>
+                <p className="text-xs text-blue-100 mt-1">
+                  正确率 {Math.round((correct / gradable.length) * 100)}% · 用时 {formatDuration(totalSpent)}
+                  {all.length > gradable.length && ` · ${all.length - gradable.length} 题未判分`}
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-3xl font-bold mt-1">{answered}/{all.length}</p>
+                <p className="text-xs text-blue-100 mt-1">已作答 · 用时 {formatDuration(totalSpent)}</p>
+              </>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-bold text-gray-800 mb-2">分模块得分</h3>
+            <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+              {graded.map(({ section, results }) => {
+                const sectionGradable = results.filter(r => r.correct !== null);
+                const sectionCorrect = sectionGradable.filter(r => r.correct).length;
+                const spent = results.reduce((sum, r) => sum + r.timeSpentMs, 0);
+                const budget = results.reduce((sum, r) => sum + r.budgetMs, 0);
+                return (
+                  <div key={section.category} className="p-3 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">{section.category}</span>
+                      <span className="font-bold text-gray-800">{sectionCorrect}/{sectionGradable.length}</span>
+                    </div>
+                    <div className="flex justify-between text-xs mt-1">
+                      <span className="text-gray-400">未作答 {results.filter(r => !r.answer).length} 题</span>
+                      <span className={spent > budget ? 'text-red-500' : 'text-gray-400'}>
+                        用时 {formatDuration(spent)} / 建议 {formatDuration(budget)}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-bold text-gray-800 mb-2">逐题用时</h3>
+            {scoringError && <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm mb-2">{scoringError}</div>}
+            <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+              {all.map((r, i) => {
+                const writing = isWritingQuestion(r.question);
+                const scored = writingScores[r.question.id];
+                return (
+                  <div key={r.question.id} className="p-3 text-sm space-y-2">
+                    <div className="flex items-center gap-3">
+                      <span className="w-6 text-xs text-gray-400">{i + 1}</span>
+                      <span className="flex-1 min-w-0 truncate text-gray-700">{r.question.subCategory || r.question.category}</span>
+                      <span className={`text-xs ${r.correct === true ? 'text-green-600' : r.correct === false ? 'text-red-500' : 'text-gray-400'}`}>
+                        {!r.answer.trim() ? '未答' : writing ? `${countWords(r.answer)} 字` : r.answer}
+                      </span>
+                      <span className={`text-xs font-mono ${r.timeSpentMs > r.budgetMs ? 'text-red-500' : 'text-gray-400'}`}>
+                        {formatDuration(r.timeSpentMs)} / {formatDuration(r.budgetMs)}
+                      </span>
+                    </div>
+                    {writing && r.answer.trim() && (scored ? (
+                      <WritingScoreCard attempt={scored} />
+                    ) : (
+                      <button
+                        onClick={() => handleScoreWriting(r)}
+                        disabled={scoringId !== null}
+                        className="w-full py-2 rounded-lg bg-teal-50 text-teal-700 text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+                      >
+                        {scoringId === r.question.id && <RefreshCw size={14} className="animate-spin" />}
+                        {scoringId === r.question.id ? 'AI 阅卷中...' : 'AI 评分并记入写作练习'}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-bold text-gray-800 mb-2">用时异常题目</h3>
+            {outliers.length === 0 ? (
+              <p className="text-xs text-gray-400">没有明显超时或草率作答的题目。</p>
+            ) : (
+              <div className="space-y-2">
+                {outliers.map(r => (
+                  <div key={r.question.id} className="bg-white rounded-xl border p-3 flex gap-3 items-center text-sm">
+                    <img src={getPreviewUrl(r.question)} className="w-12 h-12 object-cover rounded-lg bg-gray-100 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-800 truncate">{r.question.subCategory || r.question.category}</p>
+                      <p className="text-xs text-gray-400">
+                        用时 {formatDuration(r.timeSpentMs)} · 建议 {formatDuration(r.budgetMs)}
+                      </p>
+                    </div>
+                    <span className={`text-xs font-bold ${r.timeSpentMs > r.budgetMs ? 'text-red-500' : 'text-orange-500'}`}>
+                      {r.timeSpentMs > r.budgetMs ? '超时' : '过快出错'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const sectionOf = (q: Question) => paper.find(p => p.questions.includes(q))!.section;
+  const currentSpent = (timings[current.id] || 0) + (now - enteredAt.current);
+
+  return (
+    <div className="flex flex-col h-full bg-white pb-20">
+      <div className="bg-blue-600 text-white p-4 flex justify-between items-center shadow-md">
+        <button onClick={handleExit} className="text-blue-100 text-sm">退出</button>
+        <div className="flex flex-col items-center">
+          <span className={`font-bold font-mono ${remaining < 5 * 60 * 1000 ? 'text-red-200' : ''}`}>{formatClock(remaining)}</span>
+          <span className="text-xs opacity-80">
+            {sectionOf(current).category} ({index + 1}/{flat.length}) · 本题 {formatClock(Math.max(0, currentSpent))}
+          </span>
+        </div>
+        <button onClick={() => setShowGrid(!showGrid)} className="text-xs bg-blue-700 px-2 py-1 rounded">答题卡</button>
+      </div>
+
+      {showGrid ? (
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {paper.map(({ section, questions: sectionQuestions }) => (
+            <div key={section.category}>
+              <h4 className="text-xs font-bold text-gray-500 mb-2">{section.category}</h4>
+              <div className="grid grid-cols-6 gap-2">
+                {sectionQuestions.map(q => {
+                  const i = flat.indexOf(q);
+                  return (
+                    <button
+                      key={q.id}
+                      onClick={() => goTo(i)}
+                      className={`aspect-square rounded-lg text-sm font-bold border ${
+                        i === index ? 'border-blue-600 text-blue-600'
+                          : answers[q.id]?.trim() ? 'bg-blue-50 border-blue-100 text-blue-600'
+                          : 'bg-white border-gray-200 text-gray-400'
+                      }`}
+                    >
+                      {i + 1}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <button onClick={() => handleSubmit()} className="w-full py-3 rounded-xl bg-red-500 text-white font-bold">
+            交卷
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4">
+          <div className="mb-6">
+            <ImageGallery
+              key={current.id}
+              images={current.images.filter(img => img.role !== '解析')}
+              imageClassName="w-full rounded-lg border border-gray-200"
+            />
+          </div>
+          {isWritingQuestion(current) ? (
+            <>
+              {current.questionText && <p className="text-sm text-gray-700 whitespace-pre-wrap mb-4">{current.questionText}</p>}
+              <WritingEditor
+                key={current.id}
+                category={current.category}
+                value={answers[current.id] || ''}
+                onChange={v => setAnswers({ ...answers, [current.id]: v })}
+              />
+            </>
+          ) : (
+            <AnswerInput
+              key={current.id}
+              question={current}
+              value={answers[current.id] || ''}
+              onChange={v => setAnswers({ ...answers, [current.id]: v.trim() })}
+            />
+          )}
+          {!current.correctAnswer && !isWritingQuestion(current) && (
+            <p className="text-xs text-gray-400 mt-2">这道题没有录入标准答案，作答不计分。</p>
+          )}
+        </div>
+      )}
+
+      <div className="p-4 border-t bg-gray-50 flex justify-between items-center">
+        <button disabled={index === 0} onClick={() => goTo(index - 1)} className="text-gray-600 disabled:opacity-30">
+          上一题
+        </button>
+        {index < flat.length - 1 ? (
+          <button onClick={() => goTo(index + 1)} className="bg-blue-600 text-white px-6 py-2 rounded-full shadow-lg">
+            下一题
+          </button>
+        ) : (
+          <button onClick={() => handleSubmit()} className="bg-red-500 text-white px-6 py-2 rounded-full shadow-lg">
+            交卷
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 8. Knowledge-point Tree (browse, rename, merge)
+const TaxonomyBrowser = ({ questions, onUpdateQuestion, onOpenQuestion, onBack }: {
+  questions: Question[],
+  onUpdateQuestion: (q: Question) => void,
+  onOpenQuestion: (id: string) => void,
+  onBack: () => void,
+}) => {
+  const taxonomy = useTaxonomy();
+  const [category, setCategory] = useState<QuestionCategory>('言语理解与表达');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [mergingPath, setMergingPath] = useState<string | null>(null);
+
+  const nodes = flattenTaxonomy(taxonomy[category] || []);
+  const inCategory = questions.filter(q => q.category === category);
+  const countUnder = (path: string) => inCategory.filter(q => isUnderPath(q.subCategory, path)).length;
+  const unlisted = Array.from(new Set(
+    inCategory.map(q => q.subCategory).filter(sc => !isKnownKnowledgePoint(taxonomy, category, sc))
+  ));
+
+  const retag = (fromPath: string, toPath: string) => {
+    retagQuestions(questions, category, fromPath, toPath).forEach(onUpdateQuestion);
+  };
+
+  const handleRename = (node: FlatNode) => {
+    const input = prompt("新名称", node.name);
+    const newName = input ? sanitizeNodeName(input) : '';
+    if (!newName || newName === node.name) return;
+    const parent = splitPath(node.path).slice(0, -1);
+    const newPath = [...parent, newName].join(KP_SEPARATOR);
+    saveTaxonomy(renameTaxonomyNode(taxonomy, category, node.path, newName));
+    retag(node.path, newPath);
+  };
+
+  const handleAddChild = (parentPath: string) => {
+    const input = prompt("子考点名称");
+    const name = input ? sanitizeNodeName(input) : '';
+    if (!name) return;
+    saveTaxonomy(addTaxonomyPath(taxonomy, category, parentPath ? `${parentPath}${KP_SEPARATOR}${name}` : name));
+  };
+
+  const handleDelete = (node: FlatNode) => {
+    const count = countUnder(node.path);
+    const parent = splitPath(node.path).slice(0, -1).join(KP_SEPARATOR);
+    if (!confirm(count > 0
+      ? `删除「${node.path}」？其下 ${count} 道题将归到${parent ? `「${parent}」` : '未分类'}。`
+      : `删除「${node.path}」？`)) return;
+    saveTaxonomy(removeTaxonomyPath(taxonomy, category, node.path));
+    // The whole subtree goes, so descendants are re-tagged to the parent as well
+    inCategory
+      .filter(q => isUnderPath(q.subCategory, node.path))
+      .forEach(q => onUpdateQuestion({ ...q, subCategory: parent }));
+  };
+
+  // Works for tree nodes and for labels that are not in the tree yet
+  const handleMerge = (fromPath: string, toPath: string) => {
+    if (!toPath) return;
+    if (findNode(taxonomy[category] || [], fromPath)) {
+      saveTaxonomy(mergeTaxonomyNodes(taxonomy, category, fromPath, toPath));
+    }
+    retag(fromPath, toPath);
+    setMergingPath(null);
+  };
+
+  const mergeSelect = (fromPath: string) => (
+    <select
+      defaultValue=""
+      onChange={e => handleMerge(fromPath, e.target.value)}
+      className="w-full mt-2 bg-gray-50 border border-gray-200 rounded-lg p-2 text-xs"
+    >
+      <option value="" disabled>合并到...</option>
+      {nodes
+        .filter(n => !isUnderPath(n.path, fromPath))
+        .map(n => <option key={n.path} value={n.path}>{'　'.repeat(n.depth)}{n.name}</option>)}
+    </select>
+  );
+
+  const questionList = (path: string) => (
+    <div className="mt-2 space-y-1">
+      {inCategory.filter(q => isUnderPath(q.subCategory, path)).map(q => (
+        <button
+          key={q.id}
+          onClick={() => onOpenQuestion(q.id)}
+          className="w-full flex items-center gap-2 text-left text-xs text-gray-600 bg-gray-50 rounded-lg p-2"
+        >
+          <img src={getPreviewUrl(q)} className="w-8 h-8 object-cover rounded bg-gray-200 flex-shrink-0" />
+          <span className="truncate flex-1">{q.questionText || q.subCategory}</span>
+          <span className="text-gray-400">{formatDate(q.createdAt)}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">知识树</span>
+        <button onClick={() => handleAddChild('')} className="text-blue-600 text-sm flex items-center gap-1">
+          <Plus size={14} /> 考点
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <select
+          value={category}
+          onChange={e => {
+            setCategory(e.target.value as QuestionCategory);
+            setExpanded(null);
+            setMergingPath(null);
+          }}
+          className="w-full bg-white border border-gray-200 rounded-lg p-2 text-sm"
+        >
+          {ALL_CATEGORIES.map(c => <option key={c} value={c}>{c}（{questions.filter(q => q.category === c).length}）</option>)}
+        </select>
+
+        <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+          {nodes.length === 0 && <p className="p-4 text-sm text-gray-400">该大类下还没有考点</p>}
+          {nodes.map(node => (
+            <div key={node.path} className="p-3" style={{ paddingLeft: 12 + node.depth * 16 }}>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setExpanded(expanded === node.path ? null : node.path)}
+                  className="flex-1 text-left text-sm text-gray-800 flex items-center gap-1"
+                >
+                  <ChevronRight size={12} className={`text-gray-300 transition-transform ${expanded === node.path ? 'rotate-90' : ''}`} />
+                  {node.name}
+                  <span className="text-xs text-gray-400 ml-1">{countUnder(node.path)}</span>
+                </button>
+                <button onClick={() => handleAddChild(node.path)} className="text-gray-300 hover:text-blue-600" title="添加子考点"><Plus size={14} /></button>
+                <button onClick={() => handleRename(node)} className="text-gray-300 hover:text-blue-600" title="重命名"><PenTool size={14} /></button>
+                <button onClick={() => setMergingPath(mergingPath === node.path ? null : node.path)} className="text-gray-300 hover:text-blue-600" title="合并"><ArrowRight size={14} /></button>
+                <button onClick={() => handleDelete(node)} className="text-gray-300 hover:text-red-500" title="删除"><Trash2 size={14} /></button>
+              </div>
+              {mergingPath === node.path && mergeSelect(node.path)}
+              {expanded === node.path && questionList(node.path)}
+            </div>
+          ))}
+        </div>
+
+        {unlisted.length > 0 && (
+          <div>
+            <h3 className="text-sm font-bold text-gray-800 mb-2">未收录的考点</h3>
+            <p className="text-xs text-gray-400 mb-2">这些标签不在知识树中，可合并到已有考点或直接加入。</p>
+            <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+              {unlisted.map(label => (
+                <div key={label || '(empty)'} className="p-3">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 text-gray-700">{label}</span>
+                    <span className="text-xs text-gray-400">{inCategory.filter(q => q.subCategory === label).length}题</span>
+                    <button onClick={() => saveTaxonomy(addTaxonomyPath(taxonomy, category, label))} className="text-xs text-blue-600">加入</button>
+                  </div>
+                  {mergeSelect(label)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 9. Error Causes (questions grouped by cause tag)
+const CauseBrowser = ({ questions, onOpenQuestion, onPractice, onBack }: {
+  questions: Question[],
+  onOpenQuestion: (id: string) => void,
+  onPractice: (tag: CauseTag, tagged: Question[]) => void,
+  onBack: () => void,
+}) => {
+  const [expanded, setExpanded] = useState<CauseTag | null>(null);
+
+  const groups = groupByCauseTag(questions);
+  const maxCount = Math.max(1, ...groups.map(g => g.questions.length));
+  const untagged = questions.filter(q => !q.causeTags?.length);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">错因分布</span>
+        <span className="w-8" />
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+          {groups.map(({ tag, questions: tagged, reviewNeeded }) => (
+            <div key={tag} className="p-3">
+              <button
+                onClick={() => setExpanded(expanded === tag ? null : tag)}
+                disabled={tagged.length === 0}
+                className="w-full text-left disabled:opacity-40"
+              >
+                <div className="flex items-center gap-2 text-sm">
+                  <ChevronRight size={12} className={`text-gray-300 transition-transform ${expanded === tag ? 'rotate-90' : ''}`} />
+                  <span className="flex-1 text-gray-800">{tag}</span>
+                  {reviewNeeded > 0 && <span className="text-xs text-red-500">{reviewNeeded} 需加强</span>}
+                  <span className="text-xs text-gray-400">{tagged.length}题</span>
+                </div>
+                <div className="ml-5 mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-400 rounded-full" style={{ width: `${tagged.length / maxCount * 100}%` }} />
+                </div>
+              </button>
+              {expanded === tag && (
+                <div className="mt-2 space-y-1">
+                  <button
+                    onClick={() => onPractice(tag, tagged)}
+                    className="w-full text-xs text-indigo-600 font-medium bg-indigo-50 rounded-lg py-2 flex items-center justify-center gap-1"
+                  >
+                    专项练习 <ArrowRight size={12} />
+                  </button>
+                  {tagged.map(q => (
+                    <button
+                      key={q.id}
+                      onClick={() => onOpenQuestion(q.id)}
+                      className="w-full flex items-center gap-2 text-left text-xs text-gray-600 bg-gray-50 rounded-lg p-2"
+                    >
+                      <img src={getPreviewUrl(q)} className="w-8 h-8 object-cover rounded bg-gray-200 flex-shrink-0" />
+                      <span className="truncate flex-1">{q.questionText || q.subCategory}</span>
+                      <span className="text-gray-400">{q.category}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {untagged.length > 0 && (
+          <p className="text-xs text-gray-400 text-center">另有 {untagged.length} 道题尚未标注错因，可在详情页手动选择或重新分析。</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 10. Batch Import (many screenshots or a PDF -> analysis queue -> review list)
+const BATCH_CONCURRENCY = 3;
+
+type BatchFields = Pick<Question, 'subject' | 'category' | 'subCategory' | 'questionText' | 'aiAnalysis' | 'correctResolution'>
+  & { correctAnswer: string };
+
+interface BatchItem {
+  id: string;
+  label: string; // Source file name, plus page/region for PDFs
+  image: string; // Processed data URL
+  status: 'queued' | 'analyzing' | 'done' | 'failed';
+  error?: string;
+  confirmed: boolean;
+  fields: BatchFields;
+}
+
+interface PdfPage {
+  image: string;
+  selected: boolean;
+  regions: CropRect[]; // Each region becomes its own question; none means the whole page
+}
+
+const EMPTY_BATCH_FIELDS: BatchFields = {
+  subject: '职测',
+  category: '言语理解与表达',
+  subCategory: '',
+  questionText: '',
+  aiAnalysis: '',
+  correctResolution: '',
+  correctAnswer: '',
+};
+
+const BATCH_STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: '排队中',
+  analyzing: '识别中',
+  done: '已识别',
+  failed: '识别失败',
+};
+
+const createBatchItem = (label: string, image: string): BatchItem => ({
+  id: createImageId(),
+  label,
+  image,
+  status: 'queued',
+  confirmed: false,
+  fields: EMPTY_BATCH_FIELDS,
+});
+
+const BatchImport = ({ initialImages = [], onSave, onPendingChange, onCancel }: {
+  initialImages?: string[], // Camera shots to queue right away
+  onSave: (questions: Question[]) => void,
+  onPendingChange: (pending: boolean) => void, // Batch items are not autosaved, so the app asks before switching tabs
+  onCancel: () => void,
+}) => {
+  const service = useMemo(() => getAnalysisService(), []);
+  const [items, setItems] = useState<BatchItem[]>(() => initialImages.map((image, i) => createBatchItem(`拍摄 ${i + 1}`, image)));
+  const [isCamera, setIsCamera] = useState(false);
+  const [pendingPdfs, setPendingPdfs] = useState<File[]>([]);
+  const [pdf, setPdf] = useState<{ name: string, pages: PdfPage[] } | null>(null);
+  const [editingPage, setEditingPage] = useState<number | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
+
+  const hasItems = items.length > 0;
+  useEffect(() => {
+    onPendingChange(hasItems);
+    return () => onPendingChange(false);
+  }, [hasItems]);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const updateFields = (id: string, patch: Partial<BatchFields>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, fields: { ...item.fields, ...patch } } : item));
+
+  const analyze = async (item: BatchItem) => {
+    updateItem(item.id, { status: 'analyzing', error: undefined });
+    try {
+      const data = await service.classify([{ role: '题干', dataUrl: item.image }]);
+      setItems(prev => prev.map(current => current.id !== item.id ? current : {
+        ...current,
+        status: 'done',
+        fields: {
+          subject: data.subject,
+          category: data.category || current.fields.category,
+          subCategory: data.subCategory,
+          questionText: data.questionText,
+          aiAnalysis: data.analysis,
+          correctResolution: data.solution,
+          correctAnswer: data.correctAnswer,
+        },
+      }));
+    } catch (err) {
+      console.error(err);
+      updateItem(item.id, { status: 'failed', error: describeAnalysisError(err) });
+    }
+  };
+
+  // Keeps at most BATCH_CONCURRENCY requests in flight; analyze() marks items as started synchronously
+  useEffect(() => {
+    const running = items.filter(item => item.status === 'analyzing').length;
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, BATCH_CONCURRENCY - running))
+      .forEach(analyze);
+  }, [items]);
+
+  // PDFs are opened one at a time for page selection
+  useEffect(() => {
+    if (pdf || pendingPdfs.length === 0) return;
+    const [file] = pendingPdfs;
+    setLoadingMessage(`正在读取 ${file.name}...`);
+    renderPdfPages(file)
+      .then(pages => setPdf({ name: file.name, pages: pages.map(image => ({ image, selected: true, regions: [] })) }))
+      .catch(err => {
+        console.error(err);
+        alert(`无法读取 ${file.name}：${err instanceof Error ? err.message : err}`);
+        setPendingPdfs(prev => prev.slice(1));
+      })
+      .finally(() => setLoadingMessage(null));
+  }, [pdf, pendingPdfs]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const added: BatchItem[] = [];
+    for (const [index, file] of files.filter(f => f.type.startsWith('image/')).entries()) {
+      setLoadingMessage(`正在压缩图片 ${index + 1}...`);
+      const raw = await blobToDataUrl(file);
+      // Undecodable formats (e.g. HEIC) go to the model as-is
+      added.push(createBatchItem(file.name, await processImage(raw, DEFAULT_IMAGE_EDITS).catch(() => raw)));
+    }
+    setLoadingMessage(null);
+    setItems(prev => [...prev, ...added]);
+    setPendingPdfs(prev => [...prev, ...files.filter(f => f.type === 'application/pdf')]);
+  };
+
+  const updatePage = (index: number, patch: Partial<PdfPage>) =>
+    setPdf(prev => prev && { ...prev, pages: prev.pages.map((page, i) => i === index ? { ...page, ...patch } : page) });
+
+  const handlePdfConfirm = async () => {
+    if (!pdf) return;
+    setLoadingMessage('正在裁切题目...');
+    const added: BatchItem[] = [];
+    for (const [index, page] of pdf.pages.entries()) {
+      if (!page.selected) continue;
+      const regions = page.regions.length > 0 ? page.regions : [null];
+      for (const [n, crop] of regions.entries()) {
+        const image = await processImage(page.image, { ...DEFAULT_IMAGE_EDITS, crop });
+        const label = `${pdf.name} 第${index + 1}页${regions.length > 1 ? ` #${n + 1}` : ''}`;
+        added.push(createBatchItem(label, image));
+      }
+    }
+    setLoadingMessage(null);
+    setItems(prev => [...prev, ...added]);
+    setPdf(null);
+    setPendingPdfs(prev => prev.slice(1));
+  };
+
+  const handleSave = () => {
+    const confirmed = items.filter(item => item.confirmed);
+    const now = Date.now();
+    onSave(confirmed.map((item, index) => {
+      const q: Question = {
+        id: `${now}_${index}`,
+        images: [{ id: createImageId(), role: '题干', url: item.image }],
+        ...item.fields,
+        myThinking: '',
+        rootCause: '',
+        masteryStatus: null,
+        createdAt: now,
+        reviewCount: 0,
+        lastReviewedAt: null,
+      };
+      q.schedule = createInitialSchedule(q);
+      return q;
+    }));
+  };
+
+  const handleCancel = () => {
+    if (items.length > 0 && !confirm("未保存的题目将被丢弃，确定退出批量导入吗？")) return;
+    onCancel();
+  };
+
+  if (isCamera) {
+    return (
+      <div className="fixed inset-0 z-50">
+        <CameraCapture
+          onDone={shots => {
+            setIsCamera(false);
+            setItems(prev => [...prev, ...shots.map((image, i) => createBatchItem(`拍摄 ${prev.length + i + 1}`, image))]);
+          }}
+          onCancel={() => setIsCamera(false)}
+        />
+      </div>
+    );
+  }
+
+  if (pdf && editingPage !== null) {
+    const page = pdf.pages[editingPage];
+    return (
+      <div className="flex flex-col h-full bg-gray-900 pb-24">
+        <div className="px-4 py-3 flex justify-between items-center text-white">
+          <button onClick={() => updatePage(editingPage, { regions: [] })} className="text-gray-300 text-sm">清空</button>
+          <span className="font-bold">第{editingPage + 1}页 · 框选题目</span>
+          <button onClick={() => setEditingPage(null)} className="bg-blue-600 px-4 py-1.5 rounded-full text-sm font-medium">完成</button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          <CropSurface
+            src={page.image}
+            rects={page.regions}
+            onSelect={rect => rect && updatePage(editingPage, { regions: [...page.regions, rect] })}
+            imageClassName="w-full block"
+          />
+        </div>
+        <div className="px-4 pt-2 flex flex-wrap gap-2">
+          {page.regions.length === 0 && <p className="text-xs text-gray-400">拖动框选每道题，未框选则整页作为一道题</p>}
+          {page.regions.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => updatePage(editingPage, { regions: page.regions.filter((__, j) => j !== i) })}
+              className="text-xs bg-gray-700 text-gray-200 px-2 py-1 rounded-full flex items-center gap-1"
+            >
+              题 {i + 1} <XCircle size={12} />
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (pdf) {
+    const questionCount = pdf.pages.reduce((sum, page) => sum + (page.selected ? Math.max(1, page.regions.length) : 0), 0);
+    return (
+      <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+        <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+          <button
+            onClick={() => {
+              setPdf(null);
+              setPendingPdfs(prev => prev.slice(1));
+            }}
+            className="text-gray-500 text-sm"
+          >
+            跳过
+          </button>
+          <span className="font-bold text-gray-800 truncate mx-2">{pdf.name}</span>
+          <button
+            onClick={handlePdfConfirm}
+            disabled={questionCount === 0 || !!loadingMessage}
+            className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium disabled:opacity-40"
+          >
+            加入 {questionCount} 题
+          </button>
+        </div>
+        {loadingMessage && <p className="text-center text-xs text-blue-600 mt-3 animate-pulse">{loadingMessage}</p>}
+        <div className="p-4 grid grid-cols-2 gap-3">
+          {pdf.pages.map((page, index) => (
+            <div key={index} className={`bg-white rounded-xl border-2 p-2 space-y-2 ${page.selected ? 'border-blue-500' : 'border-transparent opacity-60'}`}>
+              <button onClick={() => updatePage(index, { selected: !page.selected })} className="block w-full relative">
+                <img src={page.image} className="w-full rounded" />
+                {page.regions.map((rect, i) => (
+                  <div
+                    key={i}
+                    className="absolute border border-blue-500 bg-blue-400/20"
+                    style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+                  />
+                ))}
+              </button>
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-500">第{index + 1}页</span>
+                <button
+                  onClick={() => {
+                    updatePage(index, { selected: true });
+                    setEditingPage(index);
+                  }}
+                  className="text-blue-600 flex items-center gap-1"
+                >
+                  <Crop size={12} /> {page.regions.length > 0 ? `${page.regions.length} 题` : '框选'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const doneCount = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const confirmedCount = items.filter(item => item.confirmed).length;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={handleCancel} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">批量导入</span>
+        <button
+          onClick={handleSave}
+          disabled={confirmedCount === 0}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1 disabled:opacity-40"
+        >
+          <Save size={14} /> 保存 {confirmedCount}
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex gap-2">
+          <label className="flex-1 border-2 border-dashed border-blue-300 rounded-xl p-4 flex items-center justify-center gap-2 bg-blue-50 cursor-pointer text-blue-600 text-sm font-medium">
+            <Upload size={18} /> 选择多张截图或 PDF 试卷
+            <input type="file" accept="image/*,application/pdf" multiple className="hidden" onChange={handleFiles} />
+          </label>
+          <button
+            onClick={() => setIsCamera(true)}
+            className="border-2 border-dashed border-blue-300 rounded-xl px-4 bg-blue-50 text-blue-600"
+            title="相机连拍"
+          >
+            <Camera size={18} />
+          </button>
+        </div>
+        {loadingMessage && <p className="text-center text-xs text-blue-600 animate-pulse">{loadingMessage}</p>}
+
+        {items.length > 0 && (
+          <div className="bg-white rounded-xl border shadow-sm p-3 space-y-2">
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>识别进度 {doneCount}/{items.length}{failedCount > 0 && <span className="text-red-500">（失败 {failedCount}）</span>}</span>
+              <button
+                onClick={() => setItems(prev => prev.map(item => item.status === 'done' ? { ...item, confirmed: true } : item))}
+                className="text-blue-600"
+              >
+                全部确认
+              </button>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${doneCount / items.length * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        {items.map(item => (
+          <div key={item.id} className={`bg-white rounded-xl border shadow-sm ${item.confirmed ? 'border-green-300' : ''}`}>
+            <div className="p-3 flex gap-3 items-center">
+              <img src={item.image} className="w-14 h-14 object-cover rounded-lg bg-gray-100 flex-shrink-0" />
+              <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="flex-1 min-w-0 text-left">
+                <p className="text-sm text-gray-800 truncate">{item.fields.subCategory || item.label}</p>
+                <p className="text-xs text-gray-400 truncate">{item.label}</p>
+                <p className={`text-xs mt-0.5 ${item.status === 'failed' ? 'text-red-500' : item.status === 'done' ? 'text-green-600' : 'text-blue-500'}`}>
+                  {BATCH_STATUS_LABELS[item.status]}{item.error && `：${item.error}`}
+                </p>
+              </button>
+              {item.status === 'failed' && (
+                <button onClick={() => updateItem(item.id, { status: 'queued' })} className="text-gray-400 hover:text-blue-600" title="重试">
+                  <RefreshCw size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => updateItem(item.id, { confirmed: !item.confirmed })}
+                disabled={item.status === 'queued' || item.status === 'analyzing'}
+                className={`disabled:opacity-30 ${item.confirmed ? 'text-green-600' : 'text-gray-300'}`}
+                title="确认"
+              >
+                <CheckCircle size={22} />
+              </button>
+            </div>
+            {expandedId === item.id && (
+              <div className="border-t p-3 space-y-4">
+                <img src={item.image} className="w-full rounded-lg max-h-60 object-contain bg-black" />
+                <ClassificationFields
+                  subject={item.fields.subject}
+                  category={item.fields.category}
+                  subCategory={item.fields.subCategory}
+                  onSubjectChange={subject => updateFields(item.id, { subject })}
+                  onCategoryChange={category => updateFields(item.id, { category })}
+                  onSubCategoryChange={subCategory => updateFields(item.id, { subCategory })}
+                />
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">题干文字</label>
+                  <textarea
+                    value={item.fields.questionText}
+                    onChange={e => updateFields(item.id, { questionText: e.target.value })}
+                    className="w-full h-20 bg-gray-50 border border-gray-200 rounded-lg p-2 text-sm"
+                  />
+                </div>
+                <CorrectAnswerInput
+                  category={item.fields.category}
+                  value={item.fields.correctAnswer}
+                  onChange={correctAnswer => updateFields(item.id, { correctAnswer })}
+                />
+                <textarea
+                  value={item.fields.correctResolution}
+                  onChange={e => updateFields(item.id, { correctResolution: e.target.value })}
+                  placeholder="输入正确答案和解析..."
+                  className="w-full h-24 bg-green-50 border border-green-100 rounded-lg p-3 text-sm outline-none"
+                />
+                <button
+                  onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                  className="text-xs text-red-500 flex items-center gap-1"
+                >
+                  <Trash2 size={12} /> 移除此题
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// 11. Exam History (saved sessions, per-question results, redo missed)
+const formatSessionTime = (ts: number) =>
+  new Date(ts).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const describeSessionItem = (item: ExamSessionItem) =>
+  item.correct === true ? { label: '答对', className: 'bg-green-50 text-green-600' }
+    : item.correct === false ? { label: '答错', className: 'bg-red-50 text-red-600' }
+    : item.grade === 'again' ? { label: '忘记了', className: 'bg-red-50 text-red-600' }
+    : item.grade ? { label: GRADE_LABELS[item.grade], className: 'bg-blue-50 text-blue-600' }
+    : item.revealed ? { label: '看了解析', className: 'bg-gray-100 text-gray-500' }
+    : { label: '未作答', className: 'bg-gray-50 text-gray-400' };
+
+const ExamHistory = ({ sessions, onOpen, onResume, onRedoMissed, onDelete, onBack }: {
+  sessions: ExamSession[],
+  onOpen: (id: string) => void,
+  onResume: (s: ExamSession) => void,
+  onRedoMissed: (s: ExamSession) => void,
+  onDelete: (s: ExamSession) => void,
+  onBack: () => void,
+}) => (
+  <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+    <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+      <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+      <span className="font-bold text-gray-800">练习记录</span>
+      <span className="w-8" />
+    </div>
+
+    <div className="p-4 space-y-3">
+      {sessions.length === 0 && <p className="text-center text-sm text-gray-400 mt-8">还没有练习记录</p>}
+      {sessions.map(s => {
+        const summary = summarizeSession(s);
+        return (
+          <div key={s.id} className="bg-white rounded-xl border shadow-sm p-4">
+            <button onClick={() => onOpen(s.id)} className="w-full text-left">
+              <div className="flex items-center gap-2">
+                <h3 className="font-bold text-gray-800 text-sm flex-1 truncate">{s.title}</h3>
+                {s.endedAt
+                  ? <span className="text-xs text-gray-400">已完成</span>
+                  : <span className="text-xs text-blue-600">进行中 {s.currentIndex + 1}/{summary.total}</span>}
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatSessionTime(s.startedAt)} · {summary.total} 题 · 用时 {formatDuration(summary.timeSpentMs)}
+              </p>
+              <p className="text-xs text-gray-600 mt-1">
+                作答 {summary.graded} 题，答对 {summary.correct} 题
+                {summary.missed > 0 && <span className="text-red-500"> · 错题 {summary.missed}</span>}
+              </p>
+            </button>
+            <div className="flex gap-2 mt-3">
+              {!s.endedAt && (
+                <button onClick={() => onResume(s)} className="flex-1 text-xs font-medium bg-blue-600 text-white rounded-lg py-2">
+                  继续练习
+                </button>
+              )}
+              <button
+                onClick={() => onRedoMissed(s)}
+                disabled={summary.missed === 0}
+                className="flex-1 text-xs font-medium bg-red-50 text-red-600 rounded-lg py-2 disabled:opacity-40"
+              >
+                只重做错题
+              </button>
+              <button onClick={() => onDelete(s)} className="text-gray-400 hover:text-red-500 px-2" title="删除记录">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+const ExamSessionSummary = ({ session, questionsById, onOpenQuestion, onResume, onRedoMissed, onRecompose, onBack }: {
+  session: ExamSession,
+  questionsById: Map<string, Question>,
+  onOpenQuestion: (id: string) => void,
+  onResume: () => void,
+  onRedoMissed: () => void,
+  onRecompose?: () => void, // Composed papers only
+  onBack: () => void,
+}) => {
+  const summary = summarizeSession(session);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800 truncate mx-2">{session.title}</span>
+        <span className="w-8" />
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="bg-white rounded-xl border shadow-sm p-4">
+          <p className="text-xs text-gray-400 mb-3">
+            {formatSessionTime(session.startedAt)}
+            {session.endedAt ? ` - ${formatSessionTime(session.endedAt)}` : ' · 未完成'}
+          </p>
+          <div className="grid grid-cols-4 gap-2 text-center">
+            <div>
+              <p className="text-xl font-bold text-gray-800">{summary.total}</p>
+              <p className="text-xs text-gray-400">题数</p>
+            </div>
+            <div>
+              <p className="text-xl font-bold text-green-600">
+                {summary.graded > 0 ? `${Math.round(summary.correct / summary.graded * 100)}%` : '-'}
+              </p>
+              <p className="text-xs text-gray-400">正确率</p>
+            </div>
+            <div>
+              <p className="text-xl font-bold text-red-500">{summary.missed}</p>
+              <p className="text-xs text-gray-400">错题</p>
+            </div>
+            <div>
+              <p className="text-sm font-bold text-gray-800 leading-7">{formatDuration(summary.timeSpentMs)}</p>
+              <p className="text-xs text-gray-400">用时</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {!session.endedAt && (
+            <button onClick={onResume} className="flex-1 py-3 rounded-xl text-sm font-bold bg-blue-600 text-white">
+              继续练习
+            </button>
+          )}
+          <button
+            onClick={onRedoMissed}
+            disabled={summary.missed === 0}
+            className="flex-1 py-3 rounded-xl text-sm font-bold bg-red-50 text-red-600 border border-red-100 disabled:opacity-40"
+          >
+            只重做错题 ({summary.missed})
+          </button>
+        </div>
+        {onRecompose && (
+          <button onClick={onRecompose} className="w-full text-xs text-blue-600 font-medium flex items-center justify-center gap-1">
+            <RefreshCw size={12} /> 用同一种子和设置重新组卷
+          </button>
+        )}
+
+        <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+          {session.items.map((item, i) => {
+            const q = questionsById.get(item.questionId);
+            const status = describeSessionItem(item);
+            return (
+              <button
+                key={`${item.questionId}_${i}`}
+                onClick={() => q && onOpenQuestion(q.id)}
+                disabled={!q}
+                className="w-full flex items-center gap-2 text-left text-xs p-2 disabled:opacity-50"
+              >
+                <span className="w-5 text-gray-400 text-center">{i + 1}</span>
+                {q && <img src={getPreviewUrl(q)} className="w-8 h-8 object-cover rounded bg-gray-200 flex-shrink-0" />}
+                <span className="truncate flex-1 text-gray-700">{q ? q.subCategory || q.category : '（已删除）'}</span>
+                {item.answer && <span className="text-gray-400">答 {item.answer}</span>}
+                {item.timeSpentMs > 0 && <span className="text-gray-400">{formatDuration(item.timeSpentMs)}</span>}
+                <span className={`px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 12. Exam Composer (quotas, mastery filter, weakness-weighted seeded draw)
+const ExamComposer = ({ questions, initialConfig, initialPaper, onStart, onBack }: {
+  questions: Question[],
+  initialConfig?: ComposerConfig,
+  initialPaper?: string[], // Question ids of the paper initialConfig produced, shown until a setting changes
+  onStart: (config: ComposerConfig, paper: Question[]) => void,
+  onBack: () => void,
+}) => {
+  const taxonomy = useTaxonomy();
+  const [config, setConfig] = useState<ComposerConfig>(() => initialConfig || createComposerConfig());
+  const [replay, setReplay] = useState(initialPaper);
+
+  const update = (patch: Partial<ComposerConfig>) => {
+    setReplay(undefined);
+    setConfig(prev => ({ ...prev, ...patch }));
+  };
+  const updateQuota = (index: number, patch: Partial<ComposerQuota>) =>
+    update({ quotas: config.quotas.map((quota, i) => i === index ? { ...quota, ...patch } : quota) });
+
+  const toggleMastery = (filter: MasteryFilter) =>
+    update({
+      mastery: config.mastery.includes(filter) ? config.mastery.filter(m => m !== filter) : [...config.mastery, filter],
+    });
+
+  // A new seed or changed settings describe a new paper, drawn against the library as it is now
+  const reroll = () => update({ seed: createSeed(), asOf: Date.now() });
+
+  const result = useMemo(() => {
+    const drawn = composeExam(questions, config);
+    if (!replay) return drawn;
+    // The library has changed since, so redrawing would give a different paper; deleted questions drop out
+    const byId = new Map(questions.map(q => [q.id, q]));
+    return { ...drawn, questions: replay.map(id => byId.get(id)).filter((q): q is Question => !!q), shortfalls: [] };
+  }, [questions, config, replay]);
+  const breakdown = countByCategory(result.questions);
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">智能组卷</span>
+        <button
+          onClick={() => onStart(config, result.questions)}
+          disabled={result.questions.length === 0}
+          className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium disabled:opacity-40"
+        >
+          开始
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-4">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">总题量</label>
+            <input
+              type="number"
+              min={1}
+              value={config.total}
+              onChange={e => update({ total: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-20 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-sm text-right"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">掌握状态</label>
+            <div className="flex gap-2">
+              {(Object.keys(MASTERY_FILTER_LABELS) as MasteryFilter[]).map(filter => (
+                <button
+                  key={filter}
+                  onClick={() => toggleMastery(filter)}
+                  className={`flex-1 py-1.5 rounded-lg text-xs font-medium border ${
+                    config.mastery.includes(filter) ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-gray-200 text-gray-400'
+                  }`}
+                >
+                  {MASTERY_FILTER_LABELS[filter]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-700">题型配额</h3>
+            <button
+              onClick={() => update({ quotas: [...config.quotas, { category: ALL_CATEGORIES[0], subCategory: '', count: 5 }] })}
+              className="text-xs text-blue-600 font-medium flex items-center gap-1"
+            >
+              <Plus size={12} /> 添加配额
+            </button>
+          </div>
+          {config.quotas.length === 0 && (
+            <p className="text-xs text-gray-400">不设配额时按薄弱程度从全部题目中抽取。</p>
+          )}
+          {config.quotas.map((quota, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <select
+                value={quota.category}
+                onChange={e => updateQuota(i, { category: e.target.value as QuestionCategory, subCategory: '' })}
+                className="flex-1 min-w-0 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-xs"
+              >
+                {ALL_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select
+                value={quota.subCategory}
+                onChange={e => updateQuota(i, { subCategory: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-xs"
+              >
+                <option value="">全部考点</option>
+                {flattenTaxonomy(taxonomy[quota.category] || []).map(node => (
+                  <option key={node.path} value={node.path}>{'　'.repeat(node.depth)}{node.name}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={quota.count}
+                onChange={e => updateQuota(i, { count: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="w-14 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-xs text-right"
+              />
+              <button
+                onClick={() => update({ quotas: config.quotas.filter((_, j) => j !== i) })}
+                className="text-gray-400 hover:text-red-500"
+              >
+                <XCircle size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white p-4 rounded-xl shadow-sm border space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-gray-700">随机种子</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                value={config.seed}
+                onChange={e => update({ seed: parseInt(e.target.value) || 0 })}
+                className="w-28 bg-gray-50 border border-gray-200 rounded-lg p-1.5 text-sm text-right font-mono"
+              />
+              <button onClick={reroll} className="text-blue-600 p-1" title="换一套">
+                <RefreshCw size={16} />
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">相同的种子和设置会生成同一份试卷。优先抽取薄弱考点、久未复习和近期做错的题目。</p>
         </div>
 
-        {/* Correct Resolution */}
         <div className="bg-white p-4 rounded-xl shadow-sm border space-y-2">
-          <div className="flex items-center gap-2">
-             <CheckCircle size={18} className="text-green-600"/>
-             <h3 className="font-bold text-gray-800">答案解析</h3>
+          <h3 className="text-sm font-medium text-gray-700">
+            预览：{result.questions.length} 题 <span className="text-xs text-gray-400 font-normal">（可选 {result.eligible} 题）</span>
+          </h3>
+          <div className="flex flex-wrap gap-1">
+            {breakdown.map(([category, count]) => (
+              <span key={category} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{category} {count}</span>
+            ))}
           </div>
-          <textarea 
-            value={correctResolution}
-            onChange={e => setCorrectResolution(e.target.value)}
-            placeholder="输入正确答案和解析..."
-            className="w-full h-32 bg-green-50 border border-green-100 rounded-lg p-3 text-sm focus:ring-2 focus:ring-green-200 outline-none"
-          />
+          {result.shortfalls.map(s => (
+            <p key={s.label} className="text-xs text-orange-500">{s.label}：需要 {s.requested} 题，仅有 {s.available} 题可选</p>
+          ))}
         </div>
+      </div>
+    </div>
+  );
+};
 
-        {/* Deep Analysis Action */}
-        <div className="flex flex-col gap-3">
+// 13. Printable Paper (questions with writing space, answer key, optional cover)
+interface PrintOptions {
+  cover: boolean;
+  twoColumns: boolean;
+  writingSpace: 'none' | 'small' | 'large';
+  answerKey: boolean;
+  hideThinking: boolean; // Our old thinking can bias a fresh attempt
+}
+
+const DEFAULT_PRINT_OPTIONS: PrintOptions = { cover: true, twoColumns: false, writingSpace: 'small', answerKey: true, hideThinking: true };
+
+const WRITING_SPACE_CLASSES: Record<PrintOptions['writingSpace'], string> = {
+  none: '',
+  small: 'h-24',
+  large: 'h-56',
+};
+
+const PrintPaper = ({ title, questions, onBack }: { title: string, questions: Question[], onBack: () => void }) => {
+  const [options, setOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const update = (patch: Partial<PrintOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const distribution = countByCategory(questions);
+  const toggles: { key: 'cover' | 'twoColumns' | 'answerKey' | 'hideThinking', label: string }[] = [
+    { key: 'cover', label: '封面' },
+    { key: 'twoColumns', label: '双栏' },
+    { key: 'answerKey', label: '答案解析' },
+    { key: 'hideThinking', label: '隐藏旧思路' },
+  ];
+
+  return (
+    <div className="h-full overflow-y-auto bg-gray-100 pb-24 print:h-auto print:overflow-visible print:bg-white print:pb-0">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 shadow-sm space-y-3 print:hidden">
+        <div className="flex justify-between items-center">
+          <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+          <span className="font-bold text-gray-800">打印试卷</span>
           <button
-            onClick={handleDeepAnalysis}
-            disabled={isDeepAnalyzing || (!myThinking && !correctResolution)}
-            className={`w-full py-3 rounded-xl font-bold text-white shadow-md flex items-center justify-center gap-2 transition-all ${
-              !myThinking && !correctResolution ? 'bg-gray-300 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700 active:scale-95'
-            }`}
+            onClick={() => window.print()}
+            className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-1"
           >
-            {isDeepAnalyzing ? (
-              <>
-                 <RefreshCw size={18} className="animate-spin" /> 深度诊断中...
-              </>
-            ) : (
-              <>
-                <Brain size={18} /> AI 深度归因分析
-              </>
-            )}
+            <Printer size={14} /> 打印 / PDF
           </button>
-          
-          {(!myThinking && !correctResolution) && (
-             <p className="text-xs text-center text-gray-400">请先补充“做题思路”或“正确解析”，让AI为你精准把脉。</p>
-          )}
+        </div>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {toggles.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => update({ [key]: !options[key] })}
+              className={`px-3 py-1 rounded-full border ${options[key] ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-gray-200 text-gray-400'}`}
+            >
+              {label}
+            </button>
+          ))}
+          <select
+            value={options.writingSpace}
+            onChange={e => update({ writingSpace: e.target.value as PrintOptions['writingSpace'] })}
+            className="bg-gray-50 border border-gray-200 rounded-full px-2 py-1"
+          >
+            <option value="none">不留作答区</option>
+            <option value="small">小作答区</option>
+            <option value="large">大作答区</option>
+          </select>
+        </div>
+      </div>
 
-          {/* Root Cause Result */}
-          {rootCause && (
-            <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100 space-y-4 animate-fade-in relative">
-               <div className="flex items-center gap-2 text-indigo-800">
-                 <Lightbulb size={18} />
-                 <h3 className="font-bold">AI 错因诊断报告</h3>
-               </div>
-               <textarea 
-                 value={rootCause}
-                 onChange={e => setRootCause(e.target.value)}
-                 className="w-full h-32 bg-transparent border-none text-sm text-gray-700 focus:ring-0 resize-none"
-               />
-               
-               {/* Mastery Actions in Analysis Report */}
-               <div className="flex gap-2 pt-2 border-t border-indigo-100">
-                 <button 
-                   onClick={() => setTempMastery('review_needed')}
-                   className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
-                     tempMastery === 'review_needed' 
-                       ? 'bg-red-50 border-red-200 text-red-600' 
-                       : 'bg-white border-transparent text-gray-400 hover:bg-gray-50'
-                   }`}
-                 >
-                   <AlertCircle size={14} /> 需加强 (重点复习)
-                 </button>
-                 <button 
-                   onClick={() => setTempMastery('mastered')}
-                   className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
-                     tempMastery === 'mastered' 
-                       ? 'bg-green-50 border-green-200 text-green-600' 
-                       : 'bg-white border-transparent text-gray-400 hover:bg-gray-50'
-                   }`}
-                 >
-                   <CheckCircle size={14} /> 已掌握
-                 </button>
-               </div>
-               <p className="text-xs text-indigo-400 italic text-center mt-1">标记为“需加强”将自动加入复习提醒列表</p>
+      <div className="max-w-3xl mx-auto bg-white my-4 p-8 shadow-sm text-gray-900 print:my-0 print:p-0 print:shadow-none print:max-w-none">
+        {options.cover && (
+          <section className="min-h-[80vh] flex flex-col justify-center break-after-page">
+            <h1 className="text-3xl font-bold text-center mb-2">{title}</h1>
+            <p className="text-center text-sm text-gray-500 mb-10">
+              共 {questions.length} 题 · {new Date().toLocaleDateString('zh-CN')}
+            </p>
+            <table className="w-full max-w-md mx-auto text-sm">
+              <thead>
+                <tr className="border-b border-gray-300 text-gray-500">
+                  <th className="text-left py-1 font-medium">题型</th>
+                  <th className="text-right py-1 font-medium w-16">题数</th>
+                  <th className="text-right py-1 font-medium w-16">占比</th>
+                </tr>
+              </thead>
+              <tbody>
+                {distribution.map(([category, count]) => (
+                  <tr key={category} className="border-b border-gray-100">
+                    <td className="py-1">{category}</td>
+                    <td className="text-right py-1">{count}</td>
+                    <td className="text-right py-1">{Math.round(count / questions.length * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-center text-sm text-gray-400 mt-16">姓名 ____________　　用时 ________　　得分 ________</p>
+          </section>
+        )}
+
+        <section className={options.twoColumns ? 'columns-2 gap-8' : ''}>
+          {!options.cover && <h1 className="text-xl font-bold text-center mb-6 [column-span:all]">{title}</h1>}
+          {questions.map((q, i) => (
+            <div key={q.id} className="break-inside-avoid mb-6">
+              <p className="text-sm font-bold mb-1">
+                {i + 1}. <span className="font-normal text-gray-500">【{q.subCategory || q.category}】</span>
+              </p>
+              {/* The official explanation belongs to the answer key */}
+              {q.images.filter(img => img.role !== '解析').map(img => (
+                <img key={img.id} src={img.url} alt="" className="w-full mb-2 border border-gray-100" />
+              ))}
+              {options.writingSpace !== 'none' && (
+                <div className={`${WRITING_SPACE_CLASSES[options.writingSpace]} border border-dashed border-gray-300 rounded`} />
+              )}
             </div>
-          )}
-        </div>
+          ))}
+        </section>
 
+        {options.answerKey && (
+          <section className="break-before-page pt-8 print:pt-0">
+            <h2 className="text-xl font-bold text-center mb-6">答案与解析</h2>
+            <div className={options.twoColumns ? 'columns-2 gap-8' : ''}>
+              {questions.map((q, i) => (
+                <div key={q.id} className="break-inside-avoid mb-5 text-sm space-y-1">
+                  <p className="font-bold">{i + 1}. 答案：{q.correctAnswer || '—'}</p>
+                  {(q.correctResolution || q.aiAnalysis) && (
+                    <RichText text={q.correctResolution || q.aiAnalysis} className="text-gray-700" />
+                  )}
+                  {q.images.filter(img => img.role === '解析').map(img => (
+                    <img key={img.id} src={img.url} alt="" className="w-full border border-gray-100" />
+                  ))}
+                  {!options.hideThinking && q.myThinking && (
+                    <p className="whitespace-pre-wrap text-gray-600"><span className="font-bold">当时思路：</span>{q.myThinking}</p>
+                  )}
+                  {q.rootCause && (
+                    <div className="text-gray-600">
+                      <p className="font-bold">错因{q.causeTags?.length ? `（${q.causeTags.join('、')}）` : ''}：</p>
+                      <RichText text={q.rootCause} />
+                    </div>
+                  )}
+                  {q.suggestion && (
+                    <p className="whitespace-pre-wrap text-gray-600"><span className="font-bold">改进：</span>{q.suggestion}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
       </div>
     </div>
   );
 };
 
-// 4. Review / Exam Mode
-const ReviewMode = ({ questions, onUpdateQuestion }: { questions: Question[], onUpdateQuestion: (q: Question) => void }) => {
-  const [mode, setMode] = useState<'list' | 'exam'>('list');
-  const [examQuestions, setExamQuestions] = useState<Question[]>([]);
-  const [currentExamIndex, setCurrentExamIndex] = useState(0);
-  const [showAnswer, setShowAnswer] = useState(false);
-  const [examTitle, setExamTitle] = useState("错题组卷");
-  const [filterMode, setFilterMode] = useState<'all' | 'priority'>('all');
+// 14. Variant Practice (举一反三 items generated from stored mistakes)
+interface VariantItem {
+  parent: Question;
+  variant: VariantQuestion;
+}
 
-  const startRandomExam = () => {
-    // If filter is priority, only pick from priority
-    let pool = questions;
-    if (filterMode === 'priority') {
-      pool = questions.filter(q => q.masteryStatus === 'review_needed');
-    }
-    if (pool.length === 0) {
-      alert("当前列表没有题目可考！");
-      return;
-    }
-    const shuffled = [...pool].sort(() => 0.5 - Math.random());
-    setExamQuestions(shuffled);
-    setCurrentExamIndex(0);
-    setShowAnswer(false);
-    setExamTitle(filterMode === 'priority' ? "重点题目突击" : "随机巩固练习");
-    setMode('exam');
-  };
+const optionLetter = (index: number) => String.fromCharCode(65 + index);
 
-  const startPeriodExam = (periodKey: string, periodQuestions: Question[]) => {
-    // Keep original order or shuffle slightly? Let's shuffle for exam feel.
-    const shuffled = [...periodQuestions].sort(() => 0.5 - Math.random());
-    setExamQuestions(shuffled);
-    setCurrentExamIndex(0);
-    setShowAnswer(false);
-    setExamTitle(`${periodKey} 模拟考试`);
-    setMode('exam');
-  };
+const VariantPractice = ({ title, items, onRecord, onExit }: {
+  title: string,
+  items: VariantItem[],
+  onRecord: (parentId: string, variantId: string, attempt: AnswerAttempt) => void,
+  onExit: () => void,
+}) => {
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState('');
+  const [results, setResults] = useState<AnswerAttempt[]>([]);
+  const startedAt = useRef(Date.now());
 
-  const handleUpdateMastery = (q: Question, status: MasteryStatus) => {
-    const updatedQ = { ...q, masteryStatus: status };
-    // Update local exam state
-    const newExamQs = [...examQuestions];
-    newExamQs[currentExamIndex] = updatedQ;
-    setExamQuestions(newExamQs);
-    // Propagate up
-    onUpdateQuestion(updatedQ);
-  };
+  const finished = index >= items.length;
+  const current = items[index];
+  const attempt = results[index];
 
-  const handleNext = () => {
-    // Increment review stats when proceeding from a question
-    const currentQ = examQuestions[currentExamIndex];
-    const updatedQ = {
-      ...currentQ,
-      reviewCount: (currentQ.reviewCount || 0) + 1,
-      lastReviewedAt: Date.now()
+  const toggleOption = (letter: string) =>
+    setSelected(prev => prev.includes(letter) ? prev.replace(letter, '') : normalizeChoice(prev + letter));
+
+  const handleSubmit = () => {
+    const answeredAt = Date.now();
+    const result: AnswerAttempt = {
+      answer: selected,
+      correct: gradeAnswer(current.variant.answer, selected),
+      timeSpentMs: answeredAt - startedAt.current,
+      answeredAt,
     };
-    
-    // Update Global
-    onUpdateQuestion(updatedQ);
-    
-    // Update Local to keep consistency if we stay in exam mode
-    const newExamQs = [...examQuestions];
-    newExamQs[currentExamIndex] = updatedQ;
-    setExamQuestions(newExamQs);
-
-    if (currentExamIndex < examQuestions.length - 1) {
-      setCurrentExamIndex(currentExamIndex + 1);
-      setShowAnswer(false);
-    } else {
-      alert("本轮考试结束！");
-      setMode('list');
-    }
+    setResults(prev => [...prev, result]);
+    onRecord(current.parent.id, current.variant.id, result);
   };
 
-  // Group questions by period
-  const periodGroups: { [key: string]: Question[] } = {};
-  questions.forEach(q => {
-    const key = getPeriodKey(q.createdAt);
-    if (!periodGroups[key]) periodGroups[key] = [];
-    periodGroups[key].push(q);
-  });
+  const handleNext = () => {
+    setIndex(index + 1);
+    setSelected('');
+    startedAt.current = Date.now();
+  };
 
-  // Sort periods reverse chronologically
-  const periods = Object.keys(periodGroups).sort((a, b) => {
-    // quick parse key: "2023年10月上半月"
-    const parse = (k: string) => {
-      const parts = k.match(/(\d+)年(\d+)月(.+)/);
-      if (!parts) return 0;
-      const y = parseInt(parts[1]);
-      const m = parseInt(parts[2]);
-      const p = parts[3] === '上半月' ? 0 : 1;
-      return y * 1000 + m * 10 + p;
-    };
-    return parse(b) - parse(a);
-  });
+  if (finished) {
+    const correct = results.filter(r => r.correct).length;
+    return (
+      <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+        <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+          <button onClick={onExit} className="text-gray-500 text-sm">返回</button>
+          <span className="font-bold text-gray-800">{title}</span>
+          <span className="w-8" />
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="bg-white rounded-xl border shadow-sm p-6 text-center">
+            <p className="text-3xl font-bold text-gray-800">{correct}/{items.length}</p>
+            <p className="text-sm text-gray-500 mt-1">变式题答对 {Math.round(correct / items.length * 100)}%</p>
+          </div>
+          <div className="bg-white rounded-xl border shadow-sm divide-y divide-gray-50">
+            {items.map(({ parent, variant }, i) => (
+              <div key={variant.id} className="flex items-center gap-2 p-3 text-xs">
+                <span className="w-5 text-gray-400">{i + 1}</span>
+                <span className="flex-1 truncate text-gray-700">{variant.stem}</span>
+                <span className="text-gray-400 truncate max-w-[30%]">{parent.subCategory || parent.category}</span>
+                {results[i].correct
+                  ? <CheckCircle size={14} className="text-green-600 shrink-0" />
+                  : <XCircle size={14} className="text-red-500 shrink-0" />}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
 
-  const filteredList = filterMode === 'priority' 
-    ? questions.filter(q => q.masteryStatus === 'review_needed') 
-    : questions;
+  return (
+    <div className="flex flex-col h-full bg-white pb-20">
+      <div className="bg-purple-600 text-white p-4 flex justify-between items-center shadow-md">
+        <button onClick={onExit} className="text-purple-100 text-sm">退出</button>
+        <div className="flex flex-col items-center">
+          <span className="font-bold text-sm">{title}</span>
+          <span className="text-xs opacity-80">({index + 1}/{items.length})</span>
+        </div>
+        <span className="text-xs bg-purple-700 px-2 py-1 rounded">{current.parent.category}</span>
+      </div>
 
-  if (mode === 'exam' && examQuestions.length > 0) {
-    const q = examQuestions[currentExamIndex];
-    return (
-      <div className="flex flex-col h-full bg-white pb-20">
-        <div className="bg-blue-600 text-white p-4 flex justify-between items-center shadow-md">
-           <button onClick={() => setMode('list')} className="text-blue-100 text-sm">退出</button>
-           <div className="flex flex-col items-center">
-             <span className="font-bold text-sm">{examTitle}</span>
-             <span className="text-xs opacity-80">({currentExamIndex + 1}/{examQuestions.length})</span>
-           </div>
-           <span className="text-xs bg-blue-700 px-2 py-1 rounded">{q.category}</span>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <p className="text-gray-800 leading-relaxed whitespace-pre-wrap">{current.variant.stem}</p>
+        <div className="space-y-2">
+          {current.variant.options.map((option, i) => {
+            const letter = optionLetter(i);
+            const isAnswer = current.variant.answer.includes(letter);
+            const isPicked = (attempt ? attempt.answer : selected).includes(letter);
+            return (
+              <button
+                key={letter}
+                onClick={() => toggleOption(letter)}
+                disabled={!!attempt}
+                className={`w-full text-left p-3 rounded-xl border text-sm flex gap-2 ${
+                  attempt
+                    ? isAnswer ? 'bg-green-50 border-green-300 text-green-800'
+                      : isPicked ? 'bg-red-50 border-red-300 text-red-700'
+                      : 'bg-white border-gray-200 text-gray-500'
+                    : isPicked ? 'bg-purple-50 border-purple-300 text-purple-800' : 'bg-white border-gray-200 text-gray-700'
+                }`}
+              >
+                <span className="font-bold">{letter}.</span>
+                <span className="flex-1">{option}</span>
+              </button>
+            );
+          })}
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4">
-           {/* Question Image Area */}
-           <div className="mb-6">
-             <img src={q.imageUrl} className="w-full rounded-lg border border-gray-200" />
-           </div>
+        {attempt && (
+          <div className="space-y-4 animate-fade-in">
+            <div className={`p-3 rounded-xl border text-sm ${attempt.correct ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-600'}`}>
+              <span className="font-bold">{attempt.correct ? '回答正确' : '回答错误'}</span>
+              <span className="text-gray-600"> · 正确答案 {current.variant.answer} · 用时 {formatDuration(attempt.timeSpentMs)}</span>
+            </div>
+            {current.variant.explanation && (
+              <div className="bg-green-50 p-4 rounded-xl border border-green-100">
+                <h4 className="font-bold text-green-800 mb-2 text-sm">解析</h4>
+                <p className="text-gray-700 text-sm whitespace-pre-wrap">{current.variant.explanation}</p>
+              </div>
+            )}
+            {current.parent.rootCause && (
+              <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
+                <h4 className="font-bold text-indigo-800 mb-2 text-sm">原题错因</h4>
+                <RichText text={current.parent.rootCause} className="text-gray-700 text-sm" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
 
-           {!showAnswer ? (
-             <div className="text-center mt-8">
-               <button 
-                onClick={() => setShowAnswer(true)}
-                className="bg-blue-50 text-blue-600 px-6 py-3 rounded-full font-medium shadow-sm active:scale-95 transition-transform"
-               >
-                 查看解析
-               </button>
-             </div>
-           ) : (
-             <div className="space-y-6 animate-fade-in">
-               <div className="bg-orange-50 p-4 rounded-xl border border-orange-100">
-                 <h4 className="font-bold text-orange-800 mb-2 text-sm">你的历史错因</h4>
-                 <p className="text-gray-700 text-sm">{q.myThinking || "暂无记录"}</p>
-               </div>
-               
-               {q.rootCause && (
-                  <div className="bg-indigo-50 p-4 rounded-xl border border-indigo-100">
-                    <div className="flex items-center gap-2 mb-2 justify-between">
-                       <div className="flex items-center gap-2">
-                         <Brain size={16} className="text-indigo-600"/>
-                         <h4 className="font-bold text-indigo-800 text-sm">深度诊断</h4>
-                       </div>
-                    </div>
-                    <p className="text-gray-700 text-sm whitespace-pre-wrap leading-relaxed mb-4">{q.rootCause}</p>
+      <div className="p-4 border-t bg-gray-50">
+        {attempt ? (
+          <button onClick={handleNext} className="w-full py-3 rounded-xl bg-purple-600 text-white font-bold">
+            {index < items.length - 1 ? '下一题' : '查看结果'}
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={!selected}
+            className="w-full py-3 rounded-xl bg-purple-600 text-white font-bold disabled:opacity-40"
+          >
+            提交答案
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
 
-                    {/* Mastery Toggle in Exam Mode */}
-                    <div className="flex gap-2 pt-2 border-t border-indigo-200/50">
-                        <button 
-                          onClick={() => handleUpdateMastery(q, 'review_needed')}
-                          className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
-                            q.masteryStatus === 'review_needed' 
-                              ? 'bg-red-100 border-red-300 text-red-700 shadow-sm' 
-                              : 'bg-white/50 border-transparent text-gray-500 hover:bg-white'
-                          }`}
-                        >
-                          <AlertCircle size={14} /> 需加强
-                        </button>
-                        <button 
-                          onClick={() => handleUpdateMastery(q, 'mastered')}
-                          className={`flex-1 py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-1 border transition-colors ${
-                            q.masteryStatus === 'mastered' 
-                              ? 'bg-green-100 border-green-300 text-green-700 shadow-sm' 
-                              : 'bg-white/50 border-transparent text-gray-500 hover:bg-white'
-                          }`}
-                        >
-                          <CheckCircle size={14} /> 已掌握
-                        </button>
-                    </div>
-                  </div>
-               )}
+// 15. Period Reports (half-month review with comparison and a two-week plan)
+const hasPeriodActivity = (stats: PeriodStats) => stats.added + stats.reviews + stats.attempts > 0;
 
-               <div className="bg-green-50 p-4 rounded-xl border border-green-100">
-                 <h4 className="font-bold text-green-800 mb-2 text-sm">正确解析</h4>
-                 <p className="text-gray-700 text-sm whitespace-pre-wrap">{q.correctResolution || q.aiAnalysis}</p>
-               </div>
-             </div>
-           )}
-        </div>
+const formatAccuracy = (stats: PeriodStats) =>
+  stats.attempts > 0 ? `${Math.round(stats.correctAttempts / stats.attempts * 100)}%` : '-';
+
+const PeriodReportView = ({ periodKey, questions, report, onSaved, onBack }: {
+  periodKey: string,
+  questions: Question[],
+  report?: PeriodReport,
+  onSaved: (report: PeriodReport) => void,
+  onBack: () => void,
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stats = useMemo(() => computePeriodStats(questions, periodKey), [questions, periodKey]);
+  const previous = useMemo(() => {
+    const previousKey = getPreviousPeriodKey(periodKey);
+    const prevStats = previousKey ? computePeriodStats(questions, previousKey) : null;
+    return prevStats && hasPeriodActivity(prevStats) ? prevStats : null;
+  }, [questions, periodKey]);
+  const isOutdated = !!report && JSON.stringify(report.stats) !== JSON.stringify(stats);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await getAnalysisService().generatePeriodReport({
+        periodKey, stats, previous, mistakes: formatPeriodMistakes(questions, periodKey),
+      });
+      onSaved({ periodKey, generatedAt: Date.now(), stats, previous, ...result });
+    } catch (e) {
+      console.error(e);
+      setError(`报告生成失败：${describeAnalysisError(e)}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
 
-        <div className="p-4 border-t bg-gray-50 flex justify-between items-center">
-           <button 
-             disabled={currentExamIndex === 0}
-             onClick={() => {
-               setCurrentExamIndex(Math.max(0, currentExamIndex - 1));
-               setShowAnswer(false);
-             }}
-             className="text-gray-600 disabled:opacity-30"
-           >
-             上一题
-           </button>
-           
-           <button 
-             onClick={handleNext}
-             className="bg-blue-600 text-white px-6 py-2 rounded-full shadow-lg"
-           >
-             {currentExamIndex < examQuestions.length - 1 ? '下一题' : '完成'}
-           </button>
-        </div>
-      </div>
-    );
-  }
+  const metrics: { label: string, value: (s: PeriodStats) => string | number }[] = [
+    { label: '新增错题', value: s => s.added },
+    { label: '复习次数', value: s => s.reviews },
+    { label: '重做正确率', value: formatAccuracy },
+    { label: '攻克', value: s => s.conquered },
+  ];
+  const maxCategory = Math.max(1, ...stats.categories.map(([, n]) => n));
 
   return (
-    <div className="p-6 pb-24 h-full overflow-y-auto bg-gray-50">
-      <header className="mb-6 flex justify-between items-center">
-        <h1 className="text-2xl font-bold text-gray-800">复盘 & 模考</h1>
-        <button 
-          onClick={startRandomExam}
-          className={`px-3 py-1.5 rounded-lg text-sm font-medium shadow-sm flex items-center gap-2 active:bg-gray-100 border ${
-            filterMode === 'priority' ? 'bg-red-50 text-red-600 border-red-200' : 'bg-white text-gray-600 border-gray-200'
-          }`}
+    <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+      <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+        <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+        <span className="font-bold text-gray-800">{periodKey} 报告</span>
+        <button
+          onClick={handleGenerate}
+          disabled={isGenerating}
+          className="text-sm text-blue-600 font-medium flex items-center gap-1 disabled:opacity-50"
         >
-          <RefreshCw size={14} /> {filterMode === 'priority' ? '突击重点' : '随机练习'}
+          <RefreshCw size={14} className={isGenerating ? 'animate-spin' : ''} />
+          {isGenerating ? '生成中' : report ? '重新生成' : '生成'}
         </button>
-      </header>
-      
-      {/* Regular Exam Section - Only show in All mode */}
-      {filterMode === 'all' && periods.length > 0 && (
-        <div className="mb-8">
-          <div className="flex items-center gap-2 mb-3">
-             <Calendar size={18} className="text-blue-600" />
-             <h2 className="font-bold text-gray-800">定期模考 (自动生成)</h2>
-          </div>
-          <div className="flex gap-4 overflow-x-auto pb-4 snap-x">
-             {periods.map(period => {
-               const count = periodGroups[period].length;
-               return (
-                 <div key={period} className="flex-shrink-0 w-64 snap-start bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl p-4 text-white shadow-lg relative overflow-hidden group">
-                    <div className="absolute top-0 right-0 p-3 opacity-10">
-                       <FileText size={64} />
-                    </div>
-                    <p className="text-blue-100 text-xs font-medium mb-1">半月错题集训</p>
-                    <h3 className="text-xl font-bold mb-4">{period}</h3>
-                    
-                    <div className="flex justify-between items-end">
-                       <div>
-                          <p className="text-2xl font-bold">{count}</p>
-                          <p className="text-xs text-blue-200">待重做题目</p>
-                       </div>
-                       <button 
-                         onClick={() => startPeriodExam(period, periodGroups[period])}
-                         className="bg-white text-blue-600 px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-1 active:scale-95 transition-transform"
-                       >
-                         开始考试 <ArrowRight size={12} />
-                       </button>
-                    </div>
-                 </div>
-               );
-             })}
-          </div>
-        </div>
-      )}
-
-      {/* Filter Tabs */}
-      <div className="flex items-center gap-4 mb-4 border-b border-gray-200 pb-2">
-         <button 
-           onClick={() => setFilterMode('all')}
-           className={`text-sm font-bold pb-1 relative ${filterMode === 'all' ? 'text-gray-800' : 'text-gray-400'}`}
-         >
-           全部题目
-           {filterMode === 'all' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full" />}
-         </button>
-         <button 
-           onClick={() => setFilterMode('priority')}
-           className={`text-sm font-bold pb-1 relative flex items-center gap-1 ${filterMode === 'priority' ? 'text-red-600' : 'text-gray-400'}`}
-         >
-           重点复习 (需加强)
-           {filterMode === 'priority' && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-red-600 rounded-full" />}
-           <span className="bg-gray-100 text-gray-600 px-1.5 py-0.5 rounded-full text-[10px]">
-             {questions.filter(q => q.masteryStatus === 'review_needed').length}
-           </span>
-         </button>
       </div>
 
-      {filteredList.length === 0 ? (
-        <div className="text-center text-gray-400 mt-10">
-          <BookOpen size={48} className="mx-auto mb-4 opacity-20" />
-          <p>{filterMode === 'priority' ? '太棒了！暂无需要重点复习的题目' : '还没有录入任何错题'}</p>
+      <div className="p-4 space-y-4">
+        <div className="bg-white rounded-xl border shadow-sm p-4 grid grid-cols-4 gap-2 text-center">
+          {metrics.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-lg font-bold text-gray-800">{value(stats)}</p>
+              <p className="text-xs text-gray-400">{label}</p>
+              {previous && <p className="text-[10px] text-gray-400">上期 {value(previous)}</p>}
+            </div>
+          ))}
         </div>
-      ) : (
-        <div className="space-y-4">
-          {filteredList.map((q) => (
-            <div key={q.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 flex gap-4 relative">
-              <img src={q.imageUrl} className="w-20 h-20 object-cover rounded-lg bg-gray-100 flex-shrink-0" />
-              <div className="flex-1 min-w-0">
-                <div className="flex justify-between items-start">
-                   <div className="flex gap-1 flex-wrap">
-                      <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">{q.category}</span>
-                      {q.rootCause && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">已诊断</span>}
-                   </div>
-                   
-                   {/* Display Last Reviewed At if available, otherwise creation date */}
-                   <span className="text-xs text-gray-400 flex items-center gap-1">
-                     {q.lastReviewedAt ? (
-                       <>
-                         <Clock size={10} /> 上次: {formatDate(q.lastReviewedAt)}
-                       </>
-                     ) : (
-                       <span>录入: {formatDate(q.createdAt)}</span>
-                     )}
-                   </span>
-                </div>
-                
-                <h3 className="font-bold text-gray-800 mt-2 truncate text-sm">{q.subCategory || "未分类题型"}</h3>
-                <p className="text-xs text-gray-500 mt-1 line-clamp-2">{q.correctResolution ? q.correctResolution.substring(0, 50) + "..." : "暂无解析"}</p>
-                
-                {/* Stats Footer in List Card */}
-                <div className="mt-3 flex items-center gap-3 text-xs text-gray-400 border-t border-gray-50 pt-2">
-                   <div className="flex items-center gap-1">
-                      <RotateCcw size={10} />
-                      <span>复盘 {q.reviewCount || 0} 次</span>
-                   </div>
-                   {q.masteryStatus === 'mastered' && (
-                     <span className="text-green-600 font-medium">已掌握</span>
-                   )}
-                   {q.masteryStatus === 'review_needed' && (
-                     <span className="text-red-500 font-medium">需加强</span>
-                   )}
+
+        {stats.added > 0 && (
+          <div className="bg-white rounded-xl border shadow-sm p-4 space-y-3">
+            <h3 className="font-bold text-gray-800 text-sm">题型分布</h3>
+            {stats.categories.map(([category, count]) => (
+              <div key={category} className="flex items-center gap-2 text-xs">
+                <span className="w-28 truncate text-gray-600">{category}</span>
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-400 rounded-full" style={{ width: `${count / maxCategory * 100}%` }} />
                 </div>
+                <span className="w-6 text-right text-gray-400">{count}</span>
               </div>
-              
-              {/* Mastery Indicator Icon */}
-              {q.masteryStatus === 'review_needed' && (
-                <div className="absolute top-4 right-4 text-red-500 bg-red-50 p-1.5 rounded-full shadow-sm" title="需加强">
-                  <AlertCircle size={14} />
+            ))}
+            {stats.knowledgePoints.length > 0 && (
+              <>
+                <h3 className="font-bold text-gray-800 text-sm pt-2">高频考点</h3>
+                <div className="flex flex-wrap gap-1">
+                  {stats.knowledgePoints.map(k => (
+                    <span key={k.label} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{k.label} {k.count}</span>
+                  ))}
                 </div>
-              )}
-              {q.masteryStatus === 'mastered' && (
-                <div className="absolute top-4 right-4 text-green-500 bg-green-50 p-1.5 rounded-full shadow-sm" title="已掌握">
-                  <CheckCircle size={14} />
+              </>
+            )}
+            {stats.causeTags.length > 0 && (
+              <>
+                <h3 className="font-bold text-gray-800 text-sm pt-2">错因分布</h3>
+                <div className="flex flex-wrap gap-1">
+                  {stats.causeTags.map(c => (
+                    <span key={c.tag} className="text-xs bg-indigo-50 text-indigo-700 px-2 py-0.5 rounded-full">{c.tag} {c.count}</span>
+                  ))}
                 </div>
-              )}
+              </>
+            )}
+          </div>
+        )}
+
+        {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>}
+
+        {report ? (
+          <div className="bg-white rounded-xl border shadow-sm p-4 space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-blue-800">
+                <Brain size={18} />
+                <h3 className="font-bold">AI 复盘</h3>
+              </div>
+              <span className="text-xs text-gray-400">{new Date(report.generatedAt).toLocaleString('zh-CN')}</span>
+            </div>
+            {isOutdated && <p className="text-xs text-orange-500">报告生成后本期数据有变化，可重新生成。</p>}
+            <p className="text-gray-700 whitespace-pre-wrap">{report.overview}</p>
+            {report.comparison && (
+              <div>
+                <h4 className="font-bold text-gray-800 mb-1">与上期对比</h4>
+                <p className="text-gray-700 whitespace-pre-wrap">{report.comparison}</p>
+              </div>
+            )}
+            {report.weakPoints.length > 0 && (
+              <div>
+                <h4 className="font-bold text-gray-800 mb-1">薄弱点</h4>
+                <ul className="list-disc pl-5 text-gray-700 space-y-1">
+                  {report.weakPoints.map(w => <li key={w}>{w}</li>)}
+                </ul>
+              </div>
+            )}
+            {report.plan.length > 0 && (
+              <div>
+                <h4 className="font-bold text-gray-800 mb-2">未来两周计划</h4>
+                <ol className="space-y-3 border-l-2 border-blue-100 pl-4">
+                  {report.plan.map((step, i) => (
+                    <li key={i}>
+                      <p className="font-medium text-gray-800">
+                        <span className="text-blue-600">{step.days}</span> {step.focus}
+                      </p>
+                      <ul className="list-disc pl-5 text-gray-600 text-xs mt-1 space-y-0.5">
+                        {step.tasks.map(task => <li key={task}>{task}</li>)}
+                      </ul>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        ) : (
+          <p className="text-center text-sm text-gray-400 py-6">
+            {hasPeriodActivity(stats) ? '点击右上角“生成”，AI 将对比上期并给出两周计划。' : '这半个月没有错题或复习记录。'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ReportHistory = ({ reports, onOpen, onDelete, onBack }: {
+  reports: PeriodReport[],
+  onOpen: (periodKey: string) => void,
+  onDelete: (periodKey: string) => void,
+  onBack: () => void,
+}) => (
+  <div className="flex flex-col h-full bg-gray-50 overflow-y-auto pb-24">
+    <div className="sticky top-0 bg-white border-b z-10 px-4 py-3 flex justify-between items-center shadow-sm">
+      <button onClick={onBack} className="text-gray-500 text-sm">返回</button>
+      <span className="font-bold text-gray-800">半月报告</span>
+      <span className="w-8" />
+    </div>
+    <div className="p-4 space-y-3">
+      {reports.map(r => (
+        <div key={r.periodKey} className="bg-white rounded-xl border shadow-sm p-4 flex items-start gap-3">
+          <button onClick={() => onOpen(r.periodKey)} className="flex-1 text-left min-w-0">
+            <h3 className="font-bold text-gray-800 text-sm">{r.periodKey}</h3>
+            <p className="text-xs text-gray-400 mt-0.5">
+              新增 {r.stats.added} 题 · 正确率 {formatAccuracy(r.stats)} · 生成于 {formatDate(r.generatedAt)}
+            </p>
+            <p className="text-xs text-gray-600 mt-1 line-clamp-2">{r.overview}</p>
+          </button>
+          <button onClick={() => onDelete(r.periodKey)} className="text-gray-400 hover:text-red-500 p-1" title="删除报告">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// 16. Writing Practice (综应 long-form answers scored against the rubric)
+const WritingScoreCard = ({ attempt, previous }: { attempt: WritingAttempt, previous?: WritingAttempt }) => {
+  const { score, maxScore } = getAttemptTotal(attempt);
+  const delta = previous ? getAttemptPercent(attempt) - getAttemptPercent(previous) : null;
+  return (
+    <div className="space-y-4">
+      <div className="bg-white rounded-xl border shadow-sm p-4 space-y-3">
+        <div className="flex items-end justify-between">
+          <div>
+            <span className="text-3xl font-bold text-gray-800">{score}</span>
+            <span className="text-sm text-gray-400"> / {maxScore}</span>
+          </div>
+          <div className="text-right text-xs text-gray-400">
+            <p>{attempt.wordCount} 字 · 用时 {formatDuration(attempt.timeSpentMs)}</p>
+            {delta !== null && (
+              <p className={delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-500' : ''}>
+                较上次 {delta > 0 ? `+${delta}` : delta}%
+              </p>
+            )}
+          </div>
+        </div>
+        {attempt.summary && <p className="text-sm text-gray-700">{attempt.summary}</p>}
+        {attempt.scores.map(s => (
+          <div key={s.criterion} className="text-xs space-y-1">
+            <div className="flex justify-between">
+              <span className="font-medium text-gray-700">{s.criterion}</span>
+              <span className="text-gray-500">{s.score}/{s.maxScore}</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-teal-500 rounded-full" style={{ width: `${s.maxScore > 0 ? s.score / s.maxScore * 100 : 0}%` }} />
+            </div>
+            {s.comment && <p className="text-gray-500">{s.comment}</p>}
+          </div>
+        ))}
+      </div>
+
+      {attempt.gaps.length > 0 && (
+        <div className="bg-orange-50 p-4 rounded-xl border border-orange-100 space-y-3">
+          <h4 className="font-bold text-orange-800 text-sm">对照参考答案的差距</h4>
+          {attempt.gaps.map((g, i) => (
+            <div key={i} className="text-sm space-y-1">
+              {g.excerpt
+                ? <p className="text-gray-500 border-l-2 border-orange-300 pl-2 italic">“{g.excerpt}”</p>
+                : <p className="text-xs text-orange-600">缺失要点</p>}
+              <p className="text-gray-800">{g.issue}</p>
+              {g.suggestion && <p className="text-gray-600 text-xs">建议：{g.suggestion}</p>}
             </div>
           ))}
         </div>
       )}
+
+      <details className="bg-white p-4 rounded-xl border border-gray-200">
+        <summary className="font-bold text-gray-800 text-sm cursor-pointer">我的作答</summary>
+        <p className="mt-3 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{attempt.text}</p>
+      </details>
+    </div>
+  );
+};
+
+// Answer sheet shared by writing practice and the 综应 mock exam
+const WritingEditor = ({ category, value, onChange }: { category: QuestionCategory, value: string, onChange: (v: string) => void }) => {
+  const limitMs = getWritingTimeLimitMs(category);
+  return (
+    <div className="bg-white rounded-xl border shadow-sm">
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder={category === '综合应用-文书写作' ? '注意标题、称谓、正文、落款和日期的格式...' : '按设问分条作答...'}
+        className="w-full min-h-[50vh] p-4 text-sm leading-relaxed rounded-xl resize-y focus:outline-none"
+      />
+      <div className="border-t px-4 py-2 text-xs text-gray-400 flex justify-between">
+        <span>{countWords(value)} 字</span>
+        {limitMs && <span>建议用时 {Math.round(limitMs / 60000)} 分钟</span>}
+      </div>
+    </div>
+  );
+};
+
+const WritingPractice = ({ question, onRecord, onBack }: {
+  question: Question,
+  onRecord: (attempt: WritingAttempt) => void,
+  onBack: () => void,
+}) => {
+  const attempts = question.writingAttempts || [];
+  const [text, setText] = useState('');
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const startedAt = useRef(Date.now());
+
+  const viewingIndex = attempts.findIndex(a => a.id === viewingId);
+  const viewing = attempts[viewingIndex];
+  const elapsed = now - startedAt.current;
+  const limitMs = getWritingTimeLimitMs(question.category);
+  const wordCount = countWords(text);
+
+  useEffect(() => {
+    if (viewing) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [viewing]);
+
+  const restart = (initialText: string) => {
+    setText(initialText);
+    setViewingId(null);
+    setError(null);
+    startedAt.current = Date.now();
+    setNow(Date.now());
+  };
+
+  const handleSubmit = async () => {
+    setIsScoring(true);
+    setError(null);
+    const timeSpentMs = Date.now() - startedAt.current;
+    try {
+      const result = await getAnalysisService().scoreWriting({
+        ...question,
+        answer: text,
+        timeSpentMs,
+        images: await toImageInputs(question.images),
+      });
+      const attempt: WritingAttempt = { id: createImageId(), text, wordCount, timeSpentMs, submittedAt: Date.now(), ...result };
+      onRecord(attempt);
+      setViewingId(attempt.id);
+    } catch (e) {
+      console.error(e);
+      setError(`评分失败：${describeAnalysisError(e)}`);
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (!viewing && text.trim() && !confirm("作答还没有提交评分，确定离开吗？")) return;
+    onBack();
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 pb-20">
+      <div className="bg-teal-600 text-white p-4 flex justify-between items-center shadow-md">
+        <button onClick={handleBack} className="text-teal-100 text-sm">返回</button>
+        <div className="flex flex-col items-center">
+          <span className="font-bold text-sm">写作练习</span>
+          <span className="text-xs opacity-80">{question.subCategory || question.category}</span>
+        </div>
+        {viewing ? (
+          <span className="text-xs bg-teal-700 px-2 py-1 rounded">第 {viewingIndex + 1} 次</span>
+        ) : (
+          <span className={`text-xs px-2 py-1 rounded font-mono ${limitMs && elapsed > limitMs ? 'bg-red-500' : 'bg-teal-700'}`}>
+            {formatClock(elapsed)}{limitMs && ` / ${formatClock(limitMs)}`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {viewing ? (
+          <>
+            <WritingScoreCard attempt={viewing} previous={attempts[viewingIndex - 1]} />
+            <div className="bg-green-50 p-4 rounded-xl border border-green-100">
+              <h4 className="font-bold text-green-800 mb-2 text-sm">参考答案</h4>
+              {question.correctResolution
+                ? <RichText text={question.correctResolution} className="text-gray-700 text-sm" />
+                : <ImageGallery images={question.images.filter(img => img.role === '解析')} imageClassName="w-full rounded-lg border border-gray-200" />}
+            </div>
+          </>
+        ) : (
+          <>
+            {/* The explanation image is the model answer */}
+            <ImageGallery
+              images={question.images.filter(img => img.role !== '解析')}
+              imageClassName="w-full rounded-lg border border-gray-200"
+            />
+            {question.questionText && <p className="text-sm text-gray-700 whitespace-pre-wrap">{question.questionText}</p>}
+            <WritingEditor category={question.category} value={text} onChange={setText} />
+            {error && <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>}
+          </>
+        )}
+
+        {attempts.length > 0 && (
+          <div className="bg-white rounded-xl border shadow-sm p-4 space-y-2">
+            <h3 className="font-bold text-gray-800 text-sm">历次作答</h3>
+            <ul className="divide-y divide-gray-50 text-xs">
+              {attempts.map((a, i) => ({ a, i })).reverse().map(({ a, i }) => {
+                const { score, maxScore } = getAttemptTotal(a);
+                return (
+                  <li key={a.id}>
+                    <button
+                      onClick={() => setViewingId(a.id)}
+                      className={`w-full flex items-center gap-2 py-2 text-left ${a.id === viewingId ? 'text-teal-700 font-medium' : 'text-gray-600'}`}
+                    >
+                      <span className="w-10 text-gray-400">第{i + 1}次</span>
+                      <span className="flex-1">{formatDate(a.submittedAt)} · {a.wordCount} 字 · {formatDuration(a.timeSpentMs)}</span>
+                      <span>{score}/{maxScore}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t bg-white">
+        {viewing ? (
+          <div className="flex gap-2">
+            <button onClick={() => restart(viewing.text)} className="flex-1 py-3 rounded-xl bg-teal-50 text-teal-700 font-bold">
+              在此基础上修改
+            </button>
+            <button onClick={() => restart('')} className="flex-1 py-3 rounded-xl bg-teal-600 text-white font-bold">
+              重新写一遍
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={!text.trim() || isScoring}
+            className="w-full py-3 rounded-xl bg-teal-600 text-white font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            {isScoring && <RefreshCw size={16} className="animate-spin" />}
+            {isScoring ? 'AI 阅卷中...' : '提交评分'}
+          </button>
+        )}
+      </div>
     </div>
   );
 };
 
 // --- Main App Container ---
 
+const UNDO_TIMEOUT_MS = 5000;
+
 const App = () => {
   const [activeTab, setActiveTab] = useState('dashboard');
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Deletion is deferred so it can be undone from the toast
+  const [pendingDelete, setPendingDelete] = useState<Question | null>(null);
+  const deleteTimer = useRef<number | null>(null);
+  const [batchPending, setBatchPending] = useState(false);
 
   useEffect(() => {
-    setQuestions(loadQuestions());
+    loadQuestions()
+      .then(({ questions: loaded, missingThumbnails }) => {
+        setQuestions(loaded);
+        backfillThumbnails(missingThumbnails, ({ questionId, imageId }, thumbnail) => {
+          const thumbnailUrl = URL.createObjectURL(thumbnail);
+          setQuestions(prev => prev.map(q => q.id !== questionId ? q : {
+            ...q,
+            images: q.images.map(img => img.id === imageId ? { ...img, thumbnailUrl } : img),
+          }));
+        }).catch(console.error);
+      })
+      .catch(err => {
+        console.error(err);
+        setStorageError('读取错题库失败，请刷新页面重试。');
+      });
   }, []);
 
+  const persist = (q: Question, images?: Map<string, Blob>) => {
+    putQuestion(q, images).catch(err => {
+      console.error(err);
+      setStorageError(describeStorageError(err));
+    });
+  };
+
+  const handleSaveQuestions = (saved: Question[]) => {
+    setQuestions(prev => [...saved, ...prev]);
+    saved.forEach(q => persist(q));
+    setActiveTab('review');
+  };
+
   const handleSaveQuestion = (q: Question) => {
-    const updated = [q, ...questions];
-    setQuestions(updated);
-    saveQuestions(updated);
+    setQuestions(prev => [q, ...prev]);
+    persist(q);
     setActiveTab('review');
   };
 
   const handleUpdateQuestion = (q: Question) => {
-    const updated = questions.map(item => item.id === q.id ? q : item);
-    setQuestions(updated);
-    saveQuestions(updated);
+    setQuestions(prev => prev.map(item => item.id === q.id ? q : item));
+    persist(q);
+  };
+
+  const commitDelete = (q: Question) => {
+    deleteQuestionRecord(q.id).catch(err => {
+      console.error(err);
+      setStorageError('删除失败，请稍后重试。');
+    });
+  };
+
+  const handleDeleteQuestion = (q: Question) => {
+    // Finalize any earlier deletion still waiting for undo
+    if (deleteTimer.current) window.clearTimeout(deleteTimer.current);
+    if (pendingDelete) commitDelete(pendingDelete);
+
+    setQuestions(prev => prev.filter(item => item.id !== q.id));
+    setPendingDelete(q);
+    deleteTimer.current = window.setTimeout(() => {
+      commitDelete(q);
+      setPendingDelete(null);
+      deleteTimer.current = null;
+    }, UNDO_TIMEOUT_MS);
+  };
+
+  // The undo window would otherwise outlive the page, and the question would be back after a reload
+  useEffect(() => {
+    if (!pendingDelete) return;
+    const flush = () => {
+      if (deleteTimer.current === null) return;
+      window.clearTimeout(deleteTimer.current);
+      deleteTimer.current = null;
+      commitDelete(pendingDelete);
+      setPendingDelete(null);
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [pendingDelete]);
+
+  const handleUndoDelete = () => {
+    if (!pendingDelete) return;
+    if (deleteTimer.current) window.clearTimeout(deleteTimer.current);
+    deleteTimer.current = null;
+    const restored = pendingDelete;
+    setQuestions(prev => [restored, ...prev].sort((a, b) => b.createdAt - a.createdAt));
+    setPendingDelete(null);
+  };
+
+  const switchTab = (tab: string) => {
+    if (tab !== activeTab && batchPending && !confirm("未保存的题目将被丢弃，确定离开批量导入吗？")) return;
+    setActiveTab(tab);
+  };
+
+  const handleImportQuestions = (items: { question: Question; images: Map<string, Blob> }[]) => {
+    const imported = new Map(items.map(({ question }) => [question.id, question]));
+    setQuestions(prev => [
+      ...items.map(({ question }) => question).filter(q => !prev.some(item => item.id === q.id)),
+      ...prev.map(item => imported.get(item.id) || item),
+    ].sort((a, b) => b.createdAt - a.createdAt));
+    items.forEach(({ question, images }) => persist(question, images));
   };
 
   return (
-    <div className="bg-gray-50 min-h-screen text-gray-900 font-sans">
-      <main className="h-screen overflow-hidden">
-        {activeTab === 'dashboard' && <Dashboard questions={questions} />}
+    <div className="bg-gray-50 min-h-screen text-gray-900 font-sans print:bg-white">
+      {storageError && (
+        <div className="fixed top-0 left-0 right-0 z-50 bg-red-600 text-white text-sm px-4 py-2 flex justify-between items-center shadow-md">
+          <span>{storageError}</span>
+          <button onClick={() => setStorageError(null)}><XCircle size={16} /></button>
+        </div>
+      )}
+      <main className="h-screen overflow-hidden print:h-auto print:overflow-visible">
+        {activeTab === 'dashboard' && <Dashboard questions={questions} onImport={handleImportQuestions} />}
         {activeTab === 'add' && (
           <AddQuestion 
             onSave={handleSaveQuestion} 
+            onSaveMany={handleSaveQuestions}
+            onBatchPendingChange={setBatchPending}
             onCancel={() => setActiveTab('dashboard')} 
           />
         )}
-        {activeTab === 'review' && <ReviewMode questions={questions} onUpdateQuestion={handleUpdateQuestion} />}
+        {activeTab === 'settings' && <SettingsView />}
+        {activeTab === 'review' && (
+          <ReviewMode
+            questions={questions}
+            onUpdateQuestion={handleUpdateQuestion}
+            onDeleteQuestion={handleDeleteQuestion}
+          />
+        )}
       </main>
-      <TabNav activeTab={activeTab} setActiveTab={setActiveTab} />
+      {pendingDelete && (
+        <div className="fixed bottom-24 left-4 right-4 z-50 bg-gray-800 text-white text-sm rounded-xl px-4 py-3 flex justify-between items-center shadow-lg">
+          <span>已删除「{pendingDelete.subCategory || pendingDelete.category}」</span>
+          <button onClick={handleUndoDelete} className="text-blue-300 font-bold flex items-center gap-1">
+            <RotateCcw size={14} /> 撤销
+          </button>
+        </div>
+      )}
+      <TabNav activeTab={activeTab} setActiveTab={switchTab} />
     </div>
   );
 };
 
-const root = createRoot(document.getElementById('app')!);
-root.render(<App />);
\ No newline at end of file
+// The tests import this module without a page to mount into
+const container = document.getElementById('app');
+if (container) createRoot(container).render(<App />);
+
+// Pure logic covered by index.test.ts
+export {
+  AnalysisError, classifyProviderError, withRetry, extractJson, repairLatexEscapes, validateShape, createAnalysisService, createMockProvider,
+  createInitialSchedule, scheduleReview, applyReview, markMastery, isDue,
+  openDatabase,
+  createZip, readZip, readBackup, validateBackupRecord,
+  normalizeChoice, gradeAnswer,
+  composeExam,
+  parseVariant,
+};
+export type { Question, ComposerConfig };